@@ -1,29 +1,135 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import Wheel from './components/Wheel';
 import Sidebar from './components/Sidebar';
 import WinnerModal from './components/WinnerModal';
+import BatchSummaryModal from './components/BatchSummaryModal';
+import TeamBoardModal from './components/TeamBoardModal';
+import EliminationWinnerModal from './components/EliminationWinnerModal';
 import Intro from './components/Intro';
-import { Menu, Maximize2 } from 'lucide-react';
-import { TickSoundType, WinSoundType, initAudio } from './utils/audio';
+import ShareDialog from './components/ShareDialog';
+import VerifyReceipt from './components/VerifyReceipt';
+import { Menu, Maximize2, Share2, AlertTriangle, X, ShieldCheck, Square, FastForward, UserX } from 'lucide-react';
+import { getCustomSoundId, initAudio, playWinSound, setCustomSounds, setMasterVolume } from './utils/audio';
+import { createId } from './utils/entries';
+import { createDefaultEntries, createDefaultWheel, createWheel, DEFAULT_SETTINGS, getBrandText } from './utils/defaults';
+import { deleteSound, loadAudioPreferences, loadSounds, loadState, saveAudioPreferences, saveSound, saveState, toRecordedEntries, toRecordedSettings } from './utils/storage';
+import { clearShareHash, decodeWheelConfig, readShareHash } from './utils/share';
+import { DEFAULT_RNG, generateSeed } from './utils/rng';
+import { getDrawSeed } from './utils/draw';
+import { buildReceipt, commitmentMatchesEntries, createCommitment } from './utils/fairness';
+import { getPointerAngles, POINTER_POSITIONS } from './utils/spin';
+import { applyTheme } from './utils/themes';
+import { DEFAULT_TEAM_CONFIG, finishDeal, getPickSeed, placePick, startDeal, TeamConfig, TeamDeal, toTeamBoard } from './utils/teams';
+import { AudioPreferences, CustomSound, EliminationRound, SavedWheel, SpinRecord, SpinRequest, WheelEntry, WheelSettings, WinnerRecord } from './types';
 
-const DEFAULT_ITEMS = [
-  "Ali", "Beatriz", "Charles", "Diya", "Eric", 
-  "Fatima", "Gabriel", "Hanna", "Ivan", "Julia"
-];
+// Pause between the spins of a multi-winner run, so each winner can be seen under the pointer
+const BATCH_PAUSE_MS = 1200;
+const TEAM_PICK_PAUSE_MS = 600;
+// Long enough for the wheel to close the gap left by the knocked out entry
+const ELIMINATION_PAUSE_MS = 1500;
+
+// Multi-winner run in progress. Results are collected here and added to history together at the end.
+interface DrawBatch {
+  id: string;
+  wheelId: string;
+  total: number;
+  remove: boolean;
+  records: WinnerRecord[]; // Draw order
+  stopRequested: boolean;
+}
+
+// Last-one-standing game in progress. It plays on a copy of the entries, the wheel's own list is untouched.
+interface EliminationGame {
+  wheelId: string;
+  game: number; // Draw number of the game, its spins are seeded "<seed>/<game>/<round>"
+  remaining: WheelEntry[];
+  rounds: EliminationRound[];
+  stopRequested: boolean;
+}
+
+interface BatchSummary {
+  wheelId: string;
+  records: WinnerRecord[];
+  canRemove: boolean; // False when the winners already left the wheel during the run, and for replays
+}
+
+// A fixed seed gives every draw its own seed, without one each spin gets a random seed
+const pickSeed = (seed: string, draw: number) => seed ? getDrawSeed(seed, draw) : generateSeed();
+
+// A flung wheel lands where the physics take it, so its spin has no seed
+const withFling = (request: SpinRequest, velocity?: number): SpinRequest => {
+  return velocity === undefined ? request : { ...request, seed: '', velocity };
+};
+
+const getEliminationSeed = (seed: string, game: number, round: number) => {
+  return seed ? getDrawSeed(getDrawSeed(seed, game), round) : generateSeed();
+};
+
+// Extra pointers draw extra winners on plain spins only. Multi-winner runs, elimination games,
+// team deals and fair draws go by the first pointer.
+const getActivePointers = (settings: WheelSettings, singlePointer: boolean) => {
+  const angles = getPointerAngles(settings.pointerPosition, settings.pointerCount);
+  return singlePointer || settings.elimination || settings.winnersPerRun > 1 ? angles.slice(0, 1) : angles;
+};
+
+const createRecord = (wheel: SavedWheel, entry: WheelEntry, spin: SpinRecord | undefined, timestamp: number): WinnerRecord => ({
+  id: createId(),
+  entry,
+  timestamp,
+  wheelName: wheel.name,
+  entries: toRecordedEntries(wheel.entries),
+  settings: toRecordedSettings(wheel.settings),
+  spin,
+});
 
 function App() {
-  const [items, setItems] = useState<string[]>(DEFAULT_ITEMS);
-  const [winners, setWinners] = useState<string[]>([]);
+  // Restore the previous session once, before the first render
+  const savedState = useMemo(() => loadState(), []);
+  const initialWheel = useMemo(() => savedState ? null : createDefaultWheel(), [savedState]);
+
+  const [wheels, setWheels] = useState<SavedWheel[]>(() => savedState?.wheels ?? [initialWheel]);
+  const [activeWheelId, setActiveWheelId] = useState<string>(() => savedState?.activeWheelId ?? initialWheel.id);
+  // Volume and uploaded sounds belong to the device, not to a wheel
+  const [audio, setAudio] = useState<AudioPreferences>(loadAudioPreferences);
+  const [soundsLoaded, setSoundsLoaded] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [soundStoreFailed, setSoundStoreFailed] = useState(false); // Older sounds couldn't move to IndexedDB
   const [isSpinning, setIsSpinning] = useState(false);
-  const [currentWinner, setCurrentWinner] = useState<string | null>(null);
-  const [showIntro, setShowIntro] = useState(true);
-  
-  // Settings
-  const [settings, setSettings] = useState({
-    duration: 20, // Default to 20 seconds for dramatic effect
-    tickSound: 'mechanical' as TickSoundType,
-    winSound: 'success' as WinSoundType,
-  });
+  const [currentWinner, setCurrentWinner] = useState<WheelEntry | null>(null);
+  const [spinRequest, setSpinRequest] = useState<SpinRequest | null>(null);
+  // Past result being re-run; the wheel shows its entries and settings instead of the live ones
+  const [replay, setReplay] = useState<WinnerRecord | null>(null);
+  const [batch, setBatch] = useState<DrawBatch | null>(null);
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  // Team deal in progress: the wheel shows the entries not yet dealt
+  const [teamDeal, setTeamDeal] = useState<TeamDeal | null>(null);
+  const [skipTeamAnimation, setSkipTeamAnimation] = useState(false);
+  const [isTeamBoardOpen, setIsTeamBoardOpen] = useState(false);
+  const [elimination, setElimination] = useState<EliminationGame | null>(null);
+  const [eliminationResult, setEliminationResult] = useState<WinnerRecord | null>(null);
+  const [showIntro, setShowIntro] = useState(() => window.location.hash !== '#verify');
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  // `#verify` opens the receipt checker directly, so it can be linked to participants
+  const [isVerifyOpen, setIsVerifyOpen] = useState(() => window.location.hash === '#verify');
+
+  // Results always go to the wheel that was spun, even if the active wheel changes meanwhile
+  const spinningWheelIdRef = useRef<string | null>(null);
+
+  const activeWheel = wheels.find(w => w.id === activeWheelId) ?? wheels[0];
+  const { entries: items, winners, settings } = activeWheel;
+  const teamConfig = activeWheel.teamConfig ?? DEFAULT_TEAM_CONFIG;
+  const wheelEntries = teamDeal ? teamDeal.remaining : elimination ? elimination.remaining : replay ? replay.entries : items;
+  // Spins, multi-winner runs, elimination games and team deals all lock the entries until they finish
+  const isDrawing = isSpinning || batch !== null || teamDeal !== null || elimination !== null;
+  const wheelSettings: WheelSettings = replay ? { ...settings, ...replay.settings } : settings;
+  const singlePointer = teamDeal !== null || (replay ? replay.receipt !== undefined : activeWheel.fairCommitment != null);
+  // Team deals and fair draws spin with the pointer they started with or committed to,
+  // and fair draw replays with the one in the receipt
+  const fixedPointer = teamDeal ? teamDeal.pointerAngle : replay ? replay.receipt?.pointerAngle : activeWheel.fairCommitment?.pointerAngle;
+  const pointerAngles = useMemo(() => {
+    return fixedPointer !== undefined ? [fixedPointer] : getActivePointers(wheelSettings, singlePointer);
+  }, [wheelSettings, singlePointer, fixedPointer]);
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
@@ -34,53 +140,438 @@ function App() {
     }
   }, []);
 
-  const handleSpinStart = () => {
-    if (items.length === 0 || isSpinning) return;
+  // Each wheel brings its own theme, applied before paint so switching wheels doesn't flash
+  useLayoutEffect(() => {
+    applyTheme(settings.theme);
+  }, [settings.theme]);
+
+  const title = getBrandText(settings.branding, 'title');
+  useEffect(() => {
+    document.title = title;
+  }, [title]);
+
+  useEffect(() => {
+    setMasterVolume(audio.volume, audio.muted);
+  }, [audio.volume, audio.muted]);
+
+  useEffect(() => {
+    setCustomSounds(audio.sounds);
+  }, [audio.sounds]);
+
+  // Uploads are kept in IndexedDB, older versions kept them in localStorage next to the volume.
+  // If they can't be moved they stay where they are, and audio settings aren't saved over them.
+  useEffect(() => {
+    loadSounds(audio.sounds)
+      .then(sounds => {
+        setAudio(prev => ({ ...prev, sounds }));
+        setSoundsLoaded(true);
+      })
+      .catch(e => {
+        console.error("Failed to load sounds", e);
+        setSoundStoreFailed(true);
+      });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    // Saving drops sounds from localStorage, so wait until the old ones have moved over
+    if (soundsLoaded) saveAudioPreferences(audio);
+  }, [audio, soundsLoaded]);
+
+  // Persist automatically so a reload or crashed tab doesn't lose anything
+  useEffect(() => {
+    setSaveFailed(!saveState({ wheels, activeWheelId: activeWheel.id }));
+  }, [wheels, activeWheel.id]);
+
+  // Open wheels shared via `#wheel=...` links, on startup and when a new link is pasted into this tab
+  useEffect(() => {
+    const loadSharedWheel = async () => {
+      const encoded = readShareHash(window.location.hash);
+      if (!encoded) return;
+      // Drop the hash right away so a reload (or a second effect run) doesn't import the same wheel twice
+      clearShareHash();
+      try {
+        const shared = await decodeWheelConfig(encoded);
+        const wheel: SavedWheel = { ...createWheel(shared.name, shared.entries), settings: shared.settings };
+        setWheels(prev => [...prev, wheel]);
+        setActiveWheelId(wheel.id);
+        setCurrentWinner(null);
+        setShareError(null);
+      } catch (e) {
+        setShareError(e instanceof Error ? e.message : 'This share link could not be opened.');
+      }
+    };
+
+    loadSharedWheel();
+    window.addEventListener('hashchange', loadSharedWheel);
+    return () => window.removeEventListener('hashchange', loadSharedWheel);
+  }, []);
+
+  const updateWheel = (wheelId: string, update: (wheel: SavedWheel) => SavedWheel) => {
+    setWheels(prev => prev.map(w => w.id === wheelId ? update(w) : w));
+  };
+
+  const setItems = (entries: WheelEntry[]) => {
+    if (isDrawing) return; // Also catches uploads and imports that finish mid-draw
+    updateWheel(activeWheel.id, w => ({ ...w, entries }));
+  };
+
+  const setSettings = (newSettings: WheelSettings) => {
+    updateWheel(activeWheel.id, w => ({ ...w, settings: newSettings }));
+  };
+
+  // Selects the new sound for the wheel it was uploaded on, rejects when it can't be stored
+  const handleAddSound = async (sound: CustomSound, target: 'tickSound' | 'winSound') => {
+    const wheelId = activeWheel.id;
+    await saveSound(sound);
+    setAudio(prev => ({ ...prev, sounds: [...prev.sounds, sound] }));
+    updateWheel(wheelId, w => ({ ...w, settings: { ...w.settings, [target]: getCustomSoundId(sound) } }));
+  };
+
+  // Wheels that used a deleted sound go back to the default ones
+  const handleDeleteSound = (sound: CustomSound) => {
+    const id = getCustomSoundId(sound);
+    deleteSound(sound.id).catch(e => console.error("Deleting sound failed", e));
+    setAudio(prev => ({ ...prev, sounds: prev.sounds.filter(s => s.id !== sound.id) }));
+    setWheels(prev => prev.map(w => w.settings.tickSound !== id && w.settings.winSound !== id ? w : {
+      ...w,
+      settings: {
+        ...w.settings,
+        tickSound: w.settings.tickSound === id ? DEFAULT_SETTINGS.tickSound : w.settings.tickSound,
+        winSound: w.settings.winSound === id ? DEFAULT_SETTINGS.winSound : w.settings.winSound,
+      },
+    }));
+  };
+
+  const handleSpinStart = (velocity?: number) => {
+    if (items.length === 0 || isDrawing) return;
     initAudio(); // Wake up audio context just in case, though Intro handles it
+    const commitment = activeWheel.fairCommitment;
+    if (commitment && !commitmentMatchesEntries(commitment, items)) {
+      window.alert('The entries changed after the fair draw commitment was published. Cancel it and publish a new one before spinning.');
+      return;
+    }
+    spinningWheelIdRef.current = activeWheel.id;
+    setReplay(null);
+    setCurrentWinner(null);
+    setBatchSummary(null);
+    setEliminationResult(null);
+    // A published commitment decides the seed, it is revealed in the receipt afterwards.
+    // It covers exactly one spin, so it never starts a multi-winner run, and a fling can't override it.
+    if (commitment) {
+      setSpinRequest({ seed: commitment.seed, rng: commitment.rng });
+      setIsSpinning(true);
+      return;
+    }
+    if (settings.elimination && items.length > 1) {
+      const game = winners.length + 1;
+      setElimination({ wheelId: activeWheel.id, game, remaining: items, rounds: [], stopRequested: false });
+      setSpinRequest(withFling({ seed: getEliminationSeed(settings.seed, game, 1), rng: DEFAULT_RNG }, velocity));
+      setIsSpinning(true);
+      return;
+    }
+    const total = settings.removeWinners ? Math.min(settings.winnersPerRun, items.length) : settings.winnersPerRun;
+    if (total > 1) {
+      setBatch({ id: createId(), wheelId: activeWheel.id, total, remove: settings.removeWinners, records: [], stopRequested: false });
+    }
+    setSpinRequest(withFling({ seed: pickSeed(settings.seed, winners.length + 1), rng: DEFAULT_RNG }, velocity));
+    setIsSpinning(true);
+  };
+
+  const handleReplay = (record: WinnerRecord) => {
+    if (isDrawing || !record.spin || record.entries.length === 0) return;
+    initAudio();
+    setReplay(record);
+    setSpinRequest({ seed: record.spin.seed, rng: record.spin.rng, startRotation: record.spin.startRotation, velocity: record.spin.velocity });
     setIsSpinning(true);
     setCurrentWinner(null);
   };
 
-  const handleSpinEnd = (winner: string) => {
+  const handleSpinEnd = (winners: WheelEntry[], spin: SpinRecord) => {
     setIsSpinning(false);
+    // Only plain spins can have more than one pointer, everything else goes by the first
+    const [winner] = winners;
+    // Team picks only move entries into teams, they are not results
+    if (teamDeal) {
+      setTeamDeal(placePick(teamDeal, winner));
+      return;
+    }
+    // Knocked out entries leave the game straight away, no modal in between
+    if (elimination) {
+      setElimination({
+        ...elimination,
+        remaining: elimination.remaining.filter(e => e.id !== winner.id),
+        rounds: [...elimination.rounds, { entry: winner, spin }],
+      });
+      return;
+    }
+    // Replays only show the outcome again, they are not new results
+    if (replay) {
+      if (winners.length > 1) {
+        const records = winners.map((entry, i) => ({ ...replay, id: createId(), entry, batch: { id: replay.id, draw: i + 1, size: winners.length, pointers: true } }));
+        setBatchSummary({ wheelId: activeWheel.id, records, canRemove: false });
+      } else {
+        setCurrentWinner(winner);
+      }
+      return;
+    }
+    const wheelId = spinningWheelIdRef.current ?? activeWheel.id;
+    const timestamp = Date.now();
+
+    // Every pointer picked a winner, they are recorded together like a run
+    if (winners.length > 1) {
+      const wheel = wheels.find(w => w.id === wheelId) ?? activeWheel;
+      const batchId = createId();
+      const records = winners.map((entry, i) => ({ ...createRecord(wheel, entry, spin, timestamp), batch: { id: batchId, draw: i + 1, size: winners.length, pointers: true } }));
+      updateWheel(wheelId, w => ({ ...w, winners: [...[...records].reverse(), ...w.winners] }));
+      setBatchSummary({ wheelId, records, canRemove: true });
+      return;
+    }
+
+    if (batch) {
+      const wheel = wheels.find(w => w.id === wheelId) ?? activeWheel;
+      const record = { ...createRecord(wheel, winner, spin, timestamp), batch: { id: batch.id, draw: batch.records.length + 1, size: batch.total } };
+      setBatch({ ...batch, records: [...batch.records, record] });
+      if (batch.remove) {
+        updateWheel(wheelId, w => ({ ...w, entries: w.entries.filter(i => i.id !== winner.id) }));
+      }
+      return;
+    }
+
     setCurrentWinner(winner);
     // Add to winners list immediately
-    setWinners(prev => [winner, ...prev]);
+    updateWheel(wheelId, w => {
+      const commitment = w.fairCommitment?.seed === spin.seed ? w.fairCommitment : null;
+      return {
+        ...w,
+        // A commitment covers exactly one spin
+        fairCommitment: commitment ? null : w.fairCommitment,
+        winners: [{
+          ...createRecord(w, winner, spin, timestamp),
+          receipt: commitment ? buildReceipt(w.name, commitment, spin, timestamp) : undefined,
+        }, ...w.winners],
+      };
+    });
+  };
+
+  const finishBatch = (run: DrawBatch) => {
+    // Runs stopped early record how many winners were actually drawn
+    const size = run.records.length;
+    const records = run.records.map(r => ({ ...r, batch: { ...r.batch, size } }));
+    updateWheel(run.wheelId, w => ({ ...w, winners: [...[...records].reverse(), ...w.winners] }));
+    setBatch(null);
+    setBatchSummary({ wheelId: run.wheelId, records, canRemove: !run.remove });
+  };
+
+  // Drives a multi-winner run: once a spin has settled, start the next one after a short pause
+  useEffect(() => {
+    if (!batch || isSpinning) return;
+    const wheel = wheels.find(w => w.id === batch.wheelId);
+    if (!wheel || batch.stopRequested || batch.records.length >= batch.total || wheel.entries.length === 0) {
+      finishBatch(batch);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setSpinRequest({ seed: pickSeed(wheel.settings.seed, wheel.winners.length + batch.records.length + 1), rng: DEFAULT_RNG });
+      setIsSpinning(true);
+    }, BATCH_PAUSE_MS);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [batch, isSpinning, wheels]);
+
+  // Drives an elimination game: keep spinning until one entry is left, then crown it
+  useEffect(() => {
+    if (!elimination || isSpinning) return;
+    if (elimination.stopRequested) {
+      setElimination(null);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      if (elimination.remaining.length > 1) {
+        const wheel = wheels.find(w => w.id === elimination.wheelId) ?? activeWheel;
+        setSpinRequest({ seed: getEliminationSeed(wheel.settings.seed, elimination.game, elimination.rounds.length + 1), rng: DEFAULT_RNG });
+        setIsSpinning(true);
+        return;
+      }
+      const wheelId = elimination.wheelId;
+      const timestamp = Date.now();
+      const wheel = wheels.find(w => w.id === wheelId) ?? activeWheel;
+      const record = { ...createRecord(wheel, elimination.remaining[0], undefined, timestamp), elimination: elimination.rounds };
+      updateWheel(wheelId, w => ({ ...w, winners: [record, ...w.winners] }));
+      setElimination(null);
+      setEliminationResult(record);
+      playWinSound(wheel.settings.winSound); // Same as a plain spin's winner, uploads included
+    }, ELIMINATION_PAUSE_MS);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [elimination, isSpinning]);
+
+  const handleStopElimination = () => {
+    setElimination(prev => prev && { ...prev, stopRequested: true });
+  };
+
+  const handleStopBatch = () => {
+    setBatch(prev => prev && { ...prev, stopRequested: true });
+  };
+
+  const handleCloseBatchSummary = () => {
+    setBatchSummary(null);
+    setReplay(null);
+  };
+
+  const handleRemoveBatchAndClose = () => {
+    if (batchSummary) {
+      const ids = new Set(batchSummary.records.map(r => r.entry.id));
+      updateWheel(batchSummary.wheelId, w => ({ ...w, entries: w.entries.filter(i => !ids.has(i.id)) }));
+    }
+    setBatchSummary(null);
+  };
+
+  const setTeamConfig = (config: TeamConfig) => {
+    updateWheel(activeWheel.id, w => ({ ...w, teamConfig: config }));
+  };
+
+  const handleDealTeams = () => {
+    if (items.length < 2 || isDrawing) return;
+    initAudio();
+    spinningWheelIdRef.current = activeWheel.id;
+    setReplay(null);
+    setCurrentWinner(null);
+    setBatchSummary(null);
+    setSkipTeamAnimation(false);
+    // A fixed seed deals the same teams every time
+    const seed = settings.seed ? `${settings.seed}/teams` : generateSeed();
+    setTeamDeal(startDeal(items, teamConfig, seed, DEFAULT_RNG, POINTER_POSITIONS[settings.pointerPosition]));
+  };
+
+  // Drives a team deal: one spin per pick until everyone is in a team
+  useEffect(() => {
+    if (!teamDeal || isSpinning) return;
+    if (skipTeamAnimation && teamDeal.remaining.length > 0) {
+      setTeamDeal(finishDeal(teamDeal));
+      return;
+    }
+    if (teamDeal.remaining.length === 0) {
+      const wheelId = spinningWheelIdRef.current ?? activeWheel.id;
+      updateWheel(wheelId, w => ({ ...w, teamBoard: toTeamBoard(teamDeal, Date.now()) }));
+      setTeamDeal(null);
+      setIsTeamBoardOpen(true);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setSpinRequest({ seed: getPickSeed(teamDeal), rng: teamDeal.rng });
+      setIsSpinning(true);
+    }, teamDeal.picks === 0 ? 0 : TEAM_PICK_PAUSE_MS);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamDeal, isSpinning, skipTeamAnimation]);
+
+  const handleCommitFairDraw = async () => {
+    if (items.length === 0 || isSpinning) return;
+    const wheelId = activeWheel.id;
+    try {
+      const commitment = await createCommitment(items, DEFAULT_RNG, POINTER_POSITIONS[settings.pointerPosition]);
+      updateWheel(wheelId, w => ({ ...w, fairCommitment: commitment }));
+    } catch (e) {
+      // crypto.subtle is only available in secure contexts (https or localhost)
+      console.error("Creating commitment failed", e);
+      window.alert('Fair draws need a secure connection (https) to create the commitment.');
+    }
+  };
+
+  const handleCancelFairDraw = () => {
+    updateWheel(activeWheel.id, w => ({ ...w, fairCommitment: null }));
   };
 
   const handleCloseModal = () => {
     setCurrentWinner(null);
+    setReplay(null);
   };
 
   const handleRemoveAndClose = () => {
     if (currentWinner) {
-      setItems(prev => prev.filter(i => i !== currentWinner));
+      // Remove by id so other entries sharing the same label stay on the wheel
+      const wheelId = spinningWheelIdRef.current ?? activeWheel.id;
+      updateWheel(wheelId, w => ({ ...w, entries: w.entries.filter(i => i.id !== currentWinner.id) }));
     }
     setCurrentWinner(null);
   };
 
   const handleClearWinners = () => {
-    // 1. Identify winners that are currently missing from the items list (meaning they were removed)
-    const currentItemsSet = new Set(items);
-    // Use Set to avoid adding duplicates if the winner appears multiple times in history
-    const uniqueWinners = [...new Set(winners)];
-    
-    const winnersToRestore = uniqueWinners.filter(w => !currentItemsSet.has(w));
+    if (isDrawing) return; // Later draws of the run are numbered after the winners so far
+    updateWheel(activeWheel.id, w => {
+      // 1. Identify winners that are currently missing from the items list (meaning they were removed)
+      const currentIds = new Set(w.entries.map(i => i.id));
+      // Key by entry id to avoid adding duplicates if the winner appears multiple times in history.
+      // History is newest first, so walk it backwards to restore in the original winning order.
+      const winnersToRestore = new Map<string, WheelEntry>();
+      [...w.winners].reverse().forEach(({ entry }) => {
+        if (!currentIds.has(entry.id)) winnersToRestore.set(entry.id, entry);
+      });
 
-    // 2. Add them back to the items list
-    if (winnersToRestore.length > 0) {
-      setItems(prev => [...prev, ...winnersToRestore]);
-    }
+      // 2. Add them back to the items list, 3. Clear the winners list
+      return { ...w, entries: [...w.entries, ...winnersToRestore.values()], winners: [] };
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    updateWheel(activeWheel.id, w => ({
+      ...w,
+      entries: createDefaultEntries(),
+      winners: [],
+      settings: { ...DEFAULT_SETTINGS },
+    }));
+    setCurrentWinner(null);
+  };
+
+  // --- Wheel management ---
+
+  const handleSelectWheel = (wheelId: string) => {
+    if (isDrawing) return;
+    setActiveWheelId(wheelId);
+    setCurrentWinner(null);
+    setReplay(null);
+  };
+
+  const handleCreateWheel = (name: string) => {
+    const wheel = createWheel(name);
+    setWheels(prev => [...prev, wheel]);
+    handleSelectWheel(wheel.id);
+  };
+
+  const handleRenameWheel = (wheelId: string, name: string) => {
+    updateWheel(wheelId, w => ({ ...w, name }));
+  };
 
-    // 3. Clear the winners list
-    setWinners([]);
+  const handleDuplicateWheel = (wheelId: string) => {
+    const source = wheels.find(w => w.id === wheelId);
+    if (!source) return;
+    // The copy starts with a clean results history, draws belong to the wheel they happened on
+    const copy: SavedWheel = {
+      ...createWheel(`${source.name} (copy)`, source.entries.map(e => ({ ...e, id: createId() }))),
+      settings: { ...source.settings },
+    };
+    setWheels(prev => {
+      const index = prev.findIndex(w => w.id === wheelId);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    handleSelectWheel(copy.id);
+  };
+
+  const handleDeleteWheel = (wheelId: string) => {
+    if (wheels.length <= 1 || isDrawing) return;
+    const remaining = wheels.filter(w => w.id !== wheelId);
+    setWheels(remaining);
+    if (wheelId === activeWheel.id) {
+      handleSelectWheel(remaining[0].id);
+    }
   };
 
   return (
     <div className="flex h-screen w-screen bg-slate-900 overflow-hidden relative font-sans">
       
       {/* Intro Overlay */}
-      {showIntro && <Intro onComplete={() => setShowIntro(false)} />}
+      {showIntro && <Intro branding={settings.branding} onComplete={() => setShowIntro(false)} />}
 
       {/* Main Content Area (Wheel) */}
       <div className="flex-1 flex flex-col relative bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-slate-800 to-slate-950">
@@ -89,19 +580,25 @@ function App() {
           <div className="pointer-events-auto flex gap-2">
              <button 
               onClick={() => setIsSidebarOpen(!isSidebarOpen)}
-              className="p-2 bg-slate-800/80 backdrop-blur text-white rounded-lg hover:bg-slate-700 transition-colors border border-slate-700 shadow-lg md:hidden"
+              className="p-2 bg-slate-800/80 backdrop-blur text-slate-50 rounded-lg hover:bg-slate-700 transition-colors border border-slate-700 shadow-lg md:hidden"
             >
               <Menu size={24} />
             </button>
             <div className="hidden md:flex items-center gap-2 bg-slate-800/80 backdrop-blur px-4 py-2 rounded-lg border border-slate-700 shadow-lg">
-               {/* Updated Title: Lucky Wheel (Title Case) with Rainbow Animation */}
+               {/* Title (Lucky Wheel unless the wheel is branded) with Rainbow Animation */}
                <span className="font-black text-2xl tracking-tight bg-gradient-to-r from-red-500 via-yellow-500 via-green-500 via-blue-500 to-purple-500 text-transparent bg-clip-text animate-pan drop-shadow-sm">
-                 Lucky Wheel
+                 {title}
                </span>
             </div>
           </div>
 
           <div className="pointer-events-auto flex gap-2">
+            <button className="p-2 bg-slate-800/80 backdrop-blur text-slate-300 rounded-lg hover:bg-slate-700 transition-colors border border-slate-700 shadow-lg" title="Verify a draw receipt" onClick={() => setIsVerifyOpen(true)}>
+              <ShieldCheck size={20} />
+            </button>
+            <button className="p-2 bg-slate-800/80 backdrop-blur text-slate-300 rounded-lg hover:bg-slate-700 transition-colors border border-slate-700 shadow-lg" title="Share this wheel" onClick={() => setIsShareOpen(true)}>
+              <Share2 size={20} />
+            </button>
             <button className="p-2 bg-slate-800/80 backdrop-blur text-slate-300 rounded-lg hover:bg-slate-700 transition-colors border border-slate-700 shadow-lg" title="Toggle Fullscreen" onClick={() => {
                 if (!document.fullscreenElement) {
                     document.documentElement.requestFullscreen();
@@ -114,6 +611,34 @@ function App() {
           </div>
         </div>
 
+        {/* Share Link Error */}
+        {shareError && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 w-[calc(100%-2rem)] max-w-md flex items-start gap-3 bg-red-950/90 backdrop-blur border border-red-800 text-red-200 text-sm rounded-xl px-4 py-3 shadow-lg">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5 text-red-400" />
+            <div className="flex-1">
+              <div className="font-bold">Couldn't open shared wheel</div>
+              <div className="text-red-300/80">{shareError}</div>
+            </div>
+            <button onClick={() => setShareError(null)} className="text-red-300 hover:text-white" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {/* Storage Full */}
+        {(saveFailed || soundStoreFailed) && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-[calc(100%-2rem)] max-w-md flex items-start gap-3 bg-yellow-950/90 backdrop-blur border border-yellow-800 text-yellow-200 text-sm rounded-xl px-4 py-3 shadow-lg">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5 text-yellow-400" />
+            <div className="flex-1">
+              <div className="font-bold">Changes aren't being saved</div>
+              <div className="text-yellow-300/80">
+                The browser's storage is full or turned off, so anything changed now is lost on reload.
+                Clearing old results or removing entry pictures frees up space.
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Wheel Container */}
         <div 
           className="flex-1 flex flex-col items-center justify-center p-4 md:p-10 relative"
@@ -121,20 +646,90 @@ function App() {
           {/* Wheel Canvas */}
           <div className="w-full max-w-[85vh] aspect-square relative drop-shadow-2xl">
              <Wheel 
-               items={items}
+               items={wheelEntries}
                isSpinning={isSpinning}
+               spinRequest={spinRequest}
                onSpinStart={handleSpinStart}
                onSpinEnd={handleSpinEnd}
-               spinDuration={settings.duration}
-               tickSoundId={settings.tickSound}
-               winSoundId={settings.winSound}
+               spinDuration={
+                 teamDeal ? teamConfig.spinDuration
+                 : replay?.spin ? replay.spin.duration
+                 : (batch && batch.records.length > 0) || (elimination && elimination.rounds.length > 0) ? settings.followUpDuration
+                 : settings.duration
+               }
+               tickSoundId={wheelSettings.tickSound}
+               winSoundId={wheelSettings.winSound}
+               celebrate={!teamDeal && !elimination}
+               soundtrack={wheelSettings.soundtrack}
+               pegs={wheelSettings.pegs}
+               pointerAngles={pointerAngles}
+               curvedLabels={wheelSettings.curvedLabels}
+               palette={wheelSettings.palette}
+               theme={settings.theme.wheel}
+               hubText={getBrandText(settings.branding, 'hubText')}
+               hubImage={settings.branding.hubImage}
              />
           </div>
            
-           {!isSpinning && !currentWinner && (
+           {batch && (
+             <div className="absolute bottom-8 flex items-center gap-3 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-full pl-5 pr-2 py-2 shadow-lg">
+               <span className="text-slate-300 text-sm font-medium">
+                 {batch.stopRequested
+                   ? 'Stopping after this spin...'
+                   : `Drawing winner ${Math.min(batch.records.length + 1, batch.total)} of ${batch.total}`}
+               </span>
+               <button
+                 onClick={handleStopBatch}
+                 disabled={batch.stopRequested}
+                 className="flex items-center gap-1 bg-red-900/40 hover:bg-red-900/60 text-red-300 text-xs font-bold px-3 py-1.5 rounded-full border border-red-900/60 transition-colors disabled:opacity-40"
+                 title="Stop drawing and keep the winners so far"
+               >
+                 <Square size={12} /> Stop
+               </button>
+             </div>
+           )}
+
+           {teamDeal && (
+             <div className="absolute bottom-8 flex items-center gap-3 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-full pl-5 pr-2 py-2 shadow-lg">
+               <span className="text-slate-300 text-sm font-medium">
+                 Dealing teams: {teamDeal.teams.reduce((sum, t) => sum + t.members.length, 0)} of {items.length} placed
+               </span>
+               <button
+                 onClick={() => setSkipTeamAnimation(true)}
+                 disabled={skipTeamAnimation}
+                 className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold px-3 py-1.5 rounded-full border border-slate-600 transition-colors disabled:opacity-40"
+                 title="Deal the remaining entries without spinning (same result)"
+               >
+                 <FastForward size={12} /> Skip
+               </button>
+             </div>
+           )}
+
+           {elimination && (
+             <div className="absolute bottom-8 flex items-center gap-3 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-full pl-5 pr-2 py-2 shadow-lg">
+               <UserX size={16} className="text-red-400" />
+               <span className="text-slate-300 text-sm font-medium">
+                 {elimination.stopRequested
+                   ? 'Stopping after this spin...'
+                   : !isSpinning && elimination.rounds.length > 0
+                     ? `${elimination.rounds[elimination.rounds.length - 1].entry.label} is out! ${elimination.remaining.length} left`
+                     : `Elimination: ${elimination.remaining.length} left`}
+               </span>
+               <button
+                 onClick={handleStopElimination}
+                 disabled={elimination.stopRequested}
+                 className="flex items-center gap-1 bg-red-900/40 hover:bg-red-900/60 text-red-300 text-xs font-bold px-3 py-1.5 rounded-full border border-red-900/60 transition-colors disabled:opacity-40"
+                 title="Abandon this game, nothing is recorded"
+               >
+                 <Square size={12} /> Stop
+               </button>
+             </div>
+           )}
+
+           {!isDrawing && !currentWinner && !batchSummary && !eliminationResult && (
              <div className="absolute bottom-8 flex flex-col items-center animate-in fade-in duration-700">
                <div className="text-slate-400 text-sm font-medium animate-pulse hidden md:block bg-slate-900/50 px-4 py-2 rounded-full backdrop-blur-sm border border-slate-800 mb-2">
-                 Press Ctrl+Enter to Spin
+                 Press Ctrl+Enter or fling the wheel to spin
                </div>
                <div className="text-slate-600 text-[10px] font-medium">
                  Created by Erhan Suar (with Gemini 3 Pro)
@@ -152,14 +747,36 @@ function App() {
         }`}
       >
         <Sidebar 
+          wheels={wheels}
+          activeWheelId={activeWheel.id}
+          onSelectWheel={handleSelectWheel}
+          onCreateWheel={handleCreateWheel}
+          onRenameWheel={handleRenameWheel}
+          onDuplicateWheel={handleDuplicateWheel}
+          onDeleteWheel={handleDeleteWheel}
           items={items} 
           setItems={setItems}
           winners={winners}
           onClearWinners={handleClearWinners}
           settings={settings}
           setSettings={setSettings}
-          isSpinning={isSpinning}
-          handleSpin={handleSpinStart}
+          onResetToDefaults={handleResetToDefaults}
+          isSpinning={isDrawing}
+          handleSpin={() => handleSpinStart()}
+          onReplay={handleReplay}
+          fairCommitment={activeWheel.fairCommitment ?? null}
+          onCommitFairDraw={handleCommitFairDraw}
+          onCancelFairDraw={handleCancelFairDraw}
+          teamConfig={teamConfig}
+          setTeamConfig={setTeamConfig}
+          teamDeal={teamDeal}
+          teamBoard={activeWheel.teamBoard ?? null}
+          onDealTeams={handleDealTeams}
+          onShowTeamBoard={() => setIsTeamBoardOpen(true)}
+          audio={audio}
+          setAudio={setAudio}
+          onAddSound={handleAddSound}
+          onDeleteSound={handleDeleteSound}
         />
       </div>
       
@@ -176,7 +793,45 @@ function App() {
         winner={currentWinner} 
         onClose={handleCloseModal}
         onRemoveAndClose={handleRemoveAndClose}
+        replayOf={replay}
+        headline={getBrandText(settings.branding, 'winnerHeadline')}
+      />
+
+      {/* Multi-winner Summary */}
+      <BatchSummaryModal
+        records={batchSummary?.records ?? null}
+        canRemove={batchSummary?.canRemove ?? false}
+        onClose={handleCloseBatchSummary}
+        onRemoveAndClose={handleRemoveBatchAndClose}
+        branding={settings.branding}
       />
+
+      {/* Last One Standing */}
+      <EliminationWinnerModal
+        record={eliminationResult}
+        onClose={() => setEliminationResult(null)}
+      />
+
+      {/* Team Board */}
+      <TeamBoardModal
+        board={isTeamBoardOpen ? activeWheel.teamBoard ?? null : null}
+        wheelName={activeWheel.name}
+        onClose={() => setIsTeamBoardOpen(false)}
+      />
+
+      {/* Share Dialog */}
+      <ShareDialog
+        wheel={isShareOpen ? activeWheel : null}
+        onClose={() => setIsShareOpen(false)}
+      />
+
+      {/* Receipt Verification */}
+      {isVerifyOpen && (
+        <VerifyReceipt onClose={() => {
+          setIsVerifyOpen(false);
+          if (window.location.hash === '#verify') clearShareHash();
+        }} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,133 @@
+// Command-line draws using the same spin engine as the web app, for scripts and CI.
+// Run with `npm run draw -- [file] [options]`, see `--help`.
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { buildEntries, guessMapping, ImportFormat, ImportTable, parseImportFile } from '../utils/importers';
+import { getEntryWeight, getTotalWeight } from '../utils/entries';
+import { drawWinners } from '../utils/draw';
+import { DEFAULT_RNG, generateSeed, isRngAlgorithm, rngAlgorithms } from '../utils/rng';
+import { POINTER_POSITIONS, PointerPosition } from '../utils/spin';
+
+const USAGE = `Usage: npm run draw -- [file] [options]
+
+Draws winners from a list of entries, exactly like spinning the wheel in the app.
+Entries are read from a CSV, TSV, JSON or text file, or from stdin when no file
+(or "-") is given. CSV/TSV files may have a weight column.
+
+Options:
+  -s, --seed <seed>      Random seed, same as Settings > Random Seed in the app.
+                         Draw n uses "<seed>/n". A random seed is used if omitted.
+  -n, --count <n>        Number of winners to draw (default 1)
+  -r, --remove           Remove each winner before the next draw (no repeats)
+      --first <n>        Number of the first draw, to continue an existing
+                         history in the app (default 1)
+      --rng <name>       Generator: ${Object.keys(rngAlgorithms).join(', ')} (default ${DEFAULT_RNG})
+      --pointer <pos>    Where the wheel's (first) pointer sits, same as Settings >
+                         Pointer in the app: ${Object.keys(POINTER_POSITIONS).join(', ')} (default right)
+      --format <format>  Input format: csv, tsv, json or text (default: from the
+                         file extension, or detected from the content)
+      --json             Print the result as JSON
+  -h, --help             Show this help
+`;
+
+const FORMATS: ImportFormat[] = ['csv', 'tsv', 'json', 'text'];
+
+class UsageError extends Error {}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const parsePositiveInt = (value: string, name: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new UsageError(`--${name} must be a whole number of at least 1.`);
+  return number;
+};
+
+// Headerless "name,weight" rows: treat a second column of positive numbers as the weight
+const guessHeaderlessWeight = (table: ImportTable) => {
+  if (table.hasHeaderRow || table.columns.length < 2) return null;
+  const numeric = table.rows.every(row => row[1].trim() !== '' && Number(row[1]) > 0);
+  return numeric ? 1 : null;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      seed: { type: 'string', short: 's' },
+      count: { type: 'string', short: 'n', default: '1' },
+      remove: { type: 'boolean', short: 'r', default: false },
+      first: { type: 'string', default: '1' },
+      rng: { type: 'string', default: DEFAULT_RNG },
+      pointer: { type: 'string', default: 'right' },
+      format: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length > 1) throw new UsageError('Only one entries file can be given.');
+
+  const count = parsePositiveInt(values.count, 'count');
+  const firstDraw = parsePositiveInt(values.first, 'first');
+  if (!isRngAlgorithm(values.rng)) throw new UsageError(`Unknown --rng "${values.rng}".`);
+  if (!Object.prototype.hasOwnProperty.call(POINTER_POSITIONS, values.pointer)) throw new UsageError(`Unknown --pointer "${values.pointer}".`);
+  const pointer = values.pointer as PointerPosition;
+  const format = values.format as ImportFormat | undefined;
+  if (format !== undefined && !FORMATS.includes(format)) throw new UsageError(`Unknown --format "${format}".`);
+
+  const file = positionals[0] ?? '-';
+  if (file === '-' && process.stdin.isTTY) throw new UsageError('No entries file given and nothing piped to stdin.');
+  const text = file === '-' ? await readStdin() : await readFile(file, 'utf8');
+
+  const table = parseImportFile(file === '-' ? '' : basename(file), text, format);
+  const mapping = guessMapping(table.columns);
+  if (mapping.weight === null) mapping.weight = guessHeaderlessWeight(table);
+  const entries = buildEntries(table, mapping);
+  if (entries.length === 0) throw new Error('No entries found.');
+
+  const seed = values.seed ?? generateSeed();
+  const results = drawWinners(entries, { seed, count, remove: values.remove, rng: values.rng, firstDraw, pointerAngle: POINTER_POSITIONS[pointer] });
+
+  if (values.json) {
+    const output = {
+      seed,
+      rng: values.rng,
+      pointer,
+      remove: values.remove,
+      entries: entries.length,
+      totalWeight: getTotalWeight(entries),
+      winners: results.map(result => ({
+        draw: result.draw,
+        seed: result.seed,
+        index: result.index,
+        label: result.entry.label,
+        weight: getEntryWeight(result.entry),
+        entriesLeft: result.entriesLeft,
+        finalRotation: result.finalRotation,
+      })),
+    };
+    process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    return;
+  }
+
+  process.stdout.write(`Seed: ${seed} (${values.rng}), pointer ${pointer}, ${entries.length} entries${values.remove ? ', winners removed' : ''}\n`);
+  for (const result of results) {
+    process.stdout.write(`${result.draw}. ${result.entry.label}  [entry ${result.index + 1}, seed ${result.seed}]\n`);
+  }
+};
+
+main().catch(e => {
+  const message = e instanceof Error ? e.message : String(e);
+  process.stderr.write(`draw: ${message}\n`);
+  if (e instanceof UsageError) process.stderr.write(`Run with --help for usage.\n`);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Trophy, UserMinus, RotateCw, Check } from 'lucide-react';
+import { Branding, WinnerRecord } from '../types';
+import { getBrandText } from '../utils/defaults';
+
+interface BatchSummaryModalProps {
+  records: WinnerRecord[] | null; // Results of the run, in draw order
+  canRemove: boolean; // Offer to take the winners off the wheel, not when they already are or for replays
+  onClose: () => void; // Keeps the winners
+  onRemoveAndClose: () => void; // Removes the winners
+  branding: Branding; // For the headline, same as a single winner's
+}
+
+const BatchSummaryModal: React.FC<BatchSummaryModalProps> = ({ records, canRemove, onClose, onRemoveAndClose, branding }) => {
+  if (!records || records.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-slate-800 border border-slate-600 rounded-3xl p-8 max-w-lg w-full text-center shadow-2xl transform transition-all scale-100 animate-[bounceIn_0.5s_cubic-bezier(0.175,0.885,0.32,1.275)] relative overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Decorative background glow */}
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500"></div>
+        <div className="absolute -top-20 -right-20 w-40 h-40 bg-blue-500/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-20 -left-20 w-40 h-40 bg-purple-500/20 rounded-full blur-3xl"></div>
+
+        <div className="relative z-10 flex flex-col min-h-0">
+          <div className="inline-flex items-center justify-center w-16 h-16 mx-auto bg-gradient-to-br from-yellow-300 to-orange-500 rounded-full mb-4 shadow-lg shadow-orange-500/30">
+             <Trophy size={32} className="text-white" />
+          </div>
+
+          <h2 className={`text-2xl font-bold text-slate-400 uppercase tracking-widest ${records.length === 1 ? 'mb-4' : 'mb-1'}`}>
+            {getBrandText(branding, 'winnerHeadline')}
+          </h2>
+          {records.length > 1 && (
+            <p className="text-sm font-bold text-slate-500 mb-4 uppercase tracking-widest">{records.length} Winners</p>
+          )}
+
+          <ol className="overflow-y-auto min-h-0 space-y-2 text-left">
+            {records.map((record, idx) => (
+              <li key={record.id} className="flex items-center gap-3 bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2">
+                <span className="flex items-center justify-center w-7 h-7 shrink-0 bg-yellow-500/20 text-yellow-500 rounded-full text-xs font-bold">
+                  {idx + 1}
+                </span>
+                <span className="flex-1 min-w-0 font-bold text-lg text-slate-100 break-words">{record.entry.label}</span>
+              </li>
+            ))}
+          </ol>
+
+          {!canRemove ? (
+            <button
+              onClick={onClose}
+              className="w-full mt-8 flex items-center justify-center gap-2 py-4 px-6 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-xl transition-all hover:scale-105 shadow-lg shadow-blue-600/30"
+            >
+              <Check size={20} />
+              <span>Done</span>
+            </button>
+          ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
+            <button
+              onClick={onClose}
+              className="flex items-center justify-center gap-2 py-4 px-6 bg-slate-700 hover:bg-slate-600 text-slate-50 font-bold rounded-xl transition-all hover:scale-105 border border-slate-600"
+            >
+              <RotateCw size={20} />
+              <span>Keep & Continue</span>
+            </button>
+
+            <button
+              onClick={onRemoveAndClose}
+              className="flex items-center justify-center gap-2 py-4 px-6 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-xl transition-all hover:scale-105 shadow-lg shadow-blue-600/30"
+            >
+              <UserMinus size={20} />
+              <span>Remove All & Continue</span>
+            </button>
+          </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSummaryModal;
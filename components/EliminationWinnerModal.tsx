@@ -0,0 +1,61 @@
+import React from 'react';
+import { Crown, RotateCw } from 'lucide-react';
+import { WinnerRecord } from '../types';
+
+interface EliminationWinnerModalProps {
+  record: WinnerRecord | null; // Result of a finished elimination game
+  onClose: () => void;
+}
+
+const EliminationWinnerModal: React.FC<EliminationWinnerModalProps> = ({ record, onClose }) => {
+  if (!record || !record.elimination) return null;
+
+  const rounds = record.elimination;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-slate-800 border border-yellow-500/50 rounded-3xl p-8 max-w-lg w-full text-center shadow-2xl shadow-yellow-500/10 transform transition-all scale-100 animate-[bounceIn_0.5s_cubic-bezier(0.175,0.885,0.32,1.275)] relative overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Decorative background glow */}
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-yellow-300 via-orange-500 to-yellow-300"></div>
+        <div className="absolute -top-24 left-1/2 -translate-x-1/2 w-64 h-64 bg-yellow-400/20 rounded-full blur-3xl animate-pulse"></div>
+
+        <div className="relative z-10 flex flex-col min-h-0">
+          <div className="inline-flex items-center justify-center w-24 h-24 mx-auto bg-gradient-to-br from-yellow-200 via-yellow-400 to-orange-500 rounded-full mb-6 shadow-lg shadow-orange-500/40 animate-bounce">
+             <Crown size={48} className="text-white" />
+          </div>
+
+          <h2 className="text-2xl font-bold text-yellow-600 dark:text-yellow-400/80 mb-2 uppercase tracking-widest">Last One Standing!</h2>
+
+          <div className="text-5xl md:text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-600 via-orange-500 to-yellow-600 dark:from-yellow-100 dark:via-white dark:to-yellow-200 py-6 my-2 break-words drop-shadow-[0_2px_10px_rgba(250,204,21,0.4)]">
+            {record.entry.label}
+          </div>
+
+          {record.entry.notes && (
+            <p className="text-slate-400 text-sm whitespace-pre-line -mt-2 mb-2">{record.entry.notes}</p>
+          )}
+
+          <div className="text-xs uppercase font-bold text-slate-500 mb-2 text-left">Elimination order</div>
+          <ol className="overflow-y-auto min-h-0 space-y-1 text-left text-sm">
+            {rounds.map((round, idx) => (
+              <li key={`${round.entry.id}-${idx}`} className="flex items-center gap-3 text-slate-400">
+                <span className="w-6 text-right font-mono text-xs text-slate-500">{idx + 1}.</span>
+                <span className="flex-1 truncate line-through decoration-slate-600">{round.entry.label}</span>
+              </li>
+            ))}
+          </ol>
+
+          <button
+            onClick={onClose}
+            className="w-full mt-8 flex items-center justify-center gap-2 py-4 px-6 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-400 hover:to-orange-400 text-white font-bold rounded-xl transition-all hover:scale-105 shadow-lg shadow-orange-600/30"
+          >
+            <RotateCw size={20} />
+            <span>Back to Wheel</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EliminationWinnerModal;
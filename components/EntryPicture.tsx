@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { WheelEntry } from '../types';
+
+interface EntryPictureProps {
+  entry: WheelEntry;
+  className?: string; // Size and shape of the picture
+  emojiClassName?: string; // Font size of an emoji
+  fallback?: React.ReactNode; // Shown for entries without a picture, or when the image fails to load
+}
+
+// An entry's image or emoji
+const EntryPicture: React.FC<EntryPictureProps> = ({ entry, className = '', emojiClassName = '', fallback = null }) => {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => setFailed(false), [entry.image]);
+
+  if (entry.image && !failed) {
+    return <img src={entry.image} alt="" className={`object-cover ${className}`} onError={() => setFailed(true)} />;
+  }
+  if (entry.emoji) {
+    return <span className={`inline-flex items-center justify-center leading-none ${className} ${emojiClassName}`}>{entry.emoji}</span>;
+  }
+  return <>{fallback}</>;
+};
+
+export default EntryPicture;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Lock, X, ClipboardCopy, Check, AlertTriangle } from 'lucide-react';
+import { FairCommitment } from '../utils/fairness';
+import { copyToClipboard } from '../utils/export';
+
+interface FairDrawPanelProps {
+  commitment: FairCommitment | null;
+  entriesMatch: boolean; // False when entries were edited after committing
+  disabled: boolean;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+const FairDrawPanel: React.FC<FairDrawPanelProps> = ({ commitment, entriesMatch, disabled, onCommit, onCancel }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCommitment = async () => {
+    if (!commitment) return;
+    const text = `Lucky Wheel fair draw commitment\nEntries hash: ${commitment.entriesHash}\nPointer: ${commitment.pointerAngle}°\nCommitment: ${commitment.commitment}`;
+    try {
+      await copyToClipboard(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy to clipboard failed", e);
+    }
+  };
+
+  if (!commitment) {
+    return (
+      <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-2">
+          <ShieldCheck size={16} className="text-slate-400" /> Provably Fair Draw
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Publish a hash of the entries and a secret seed before spinning. The next spin uses that seed,
+          and its receipt reveals it so anyone can check the result wasn't picked after the fact.
+        </p>
+        <button
+          onClick={onCommit}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Lock size={14} /> Publish Commitment
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-900/20 p-4 rounded-xl border border-blue-800/60">
+      <div className="flex items-center gap-2 text-sm font-medium text-blue-300 mb-2">
+        <Lock size={16} /> Commitment Published
+        <button onClick={onCancel} disabled={disabled} className="ml-auto text-slate-400 hover:text-slate-50 disabled:opacity-40" title="Cancel commitment">
+          <X size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-400 mb-2">
+        Share these hashes with participants now. The next spin reveals the seed in its receipt.
+      </p>
+      <dl className="text-[11px] space-y-1 mb-3">
+        <dt className="text-slate-500">Entries hash ({commitment.entries.length} entries)</dt>
+        <dd className="font-mono text-slate-300 break-all">{commitment.entriesHash}</dd>
+        <dt className="text-slate-500">Pointer</dt>
+        <dd className="font-mono text-slate-300">{commitment.pointerAngle}° (clockwise from 12 o'clock)</dd>
+        <dt className="text-slate-500">Commitment</dt>
+        <dd className="font-mono text-slate-300 break-all">{commitment.commitment}</dd>
+      </dl>
+      {!entriesMatch && (
+        <p className="flex items-start gap-2 text-xs text-yellow-400 mb-3">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          Entries changed since this was published. Cancel it and publish a new commitment before spinning.
+        </p>
+      )}
+      <button
+        onClick={copyCommitment}
+        className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600"
+      >
+        {copied ? <Check size={14} className="text-green-400" /> : <ClipboardCopy size={14} />} {copied ? 'Copied' : 'Copy Hashes'}
+      </button>
+    </div>
+  );
+};
+
+export default FairDrawPanel;
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileUp, X, ListPlus, Replace } from 'lucide-react';
+import { ColumnMapping, ImportTable, buildEntries, guessMapping, setHeaderRow } from '../utils/importers';
+import { WheelEntry } from '../types';
+
+export type ImportMode = 'replace' | 'append';
+
+interface ImportModalProps {
+  fileName: string;
+  table: ImportTable;
+  onCancel: () => void;
+  onImport: (entries: WheelEntry[], mode: ImportMode) => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const ImportModal: React.FC<ImportModalProps> = ({ fileName, table: initialTable, onCancel, onImport }) => {
+  const [table, setTable] = useState(initialTable);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(initialTable.columns));
+
+  const entries = useMemo(() => buildEntries(table, mapping), [table, mapping]);
+  const canToggleHeader = table.format === 'csv' || table.format === 'tsv';
+
+  const handleHeaderToggle = (hasHeaderRow: boolean) => {
+    const next = setHeaderRow(table, hasHeaderRow);
+    setTable(next);
+    setMapping(guessMapping(next.columns));
+  };
+
+  const columnSelect = (field: keyof ColumnMapping, optional: boolean) => (
+    <select
+      value={mapping[field] ?? ''}
+      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+      className="w-full bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2 text-sm focus:ring-blue-500 focus:border-blue-500 outline-none"
+    >
+      {optional && <option value="">— None —</option>}
+      {table.columns.map((column, i) => (
+        <option key={i} value={i}>{column}</option>
+      ))}
+    </select>
+  );
+
+  // Portal to <body>: the sidebar is transformed, which would trap a fixed overlay inside it
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl p-6 max-w-xl w-full shadow-2xl relative max-h-full overflow-y-auto">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-50 transition-colors" title="Cancel">
+          <X size={20} />
+        </button>
+
+        <h2 className="flex items-center gap-2 text-lg font-bold text-slate-200 mb-1">
+          <FileUp size={20} className="text-blue-400" /> Import Entries
+        </h2>
+        <p className="text-xs text-slate-500 mb-4 truncate">
+          {fileName} · <span className="uppercase">{table.format}</span> · {table.rows.length} rows
+        </p>
+
+        {/* Column mapping */}
+        {table.columns.length > 1 && (
+          <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700 mb-4 space-y-3">
+            {canToggleHeader && (
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={table.hasHeaderRow}
+                  onChange={(e) => handleHeaderToggle(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                First row contains column names
+              </label>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Label</label>
+                {columnSelect('label', false)}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Weight</label>
+                {columnSelect('weight', true)}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Color</label>
+                {columnSelect('color', true)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="rounded-xl border border-slate-700 overflow-hidden mb-2">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-900/60 text-slate-400 text-xs uppercase">
+              <tr>
+                <th className="text-left px-3 py-2 font-semibold">Label</th>
+                <th className="text-right px-3 py-2 font-semibold">Weight</th>
+                <th className="text-right px-3 py-2 font-semibold">Color</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/60">
+              {entries.slice(0, PREVIEW_ROWS).map(entry => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-1.5 text-slate-200 truncate max-w-[16rem]">{entry.label}</td>
+                  <td className="px-3 py-1.5 text-right font-mono text-slate-400">{entry.weight ?? 1}</td>
+                  <td className="px-3 py-1.5">
+                    {entry.color && (
+                      <span className="ml-auto block w-4 h-4 rounded-full border border-slate-600" style={{ background: entry.color }} />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-500 mb-5">
+          {entries.length === 0
+            ? 'No entries found with this column mapping.'
+            : entries.length > PREVIEW_ROWS
+              ? `Showing ${PREVIEW_ROWS} of ${entries.length} entries`
+              : `${entries.length} entries`}
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => onImport(entries, 'append')}
+            disabled={entries.length === 0}
+            className="flex items-center justify-center gap-2 py-3 px-4 bg-slate-700 hover:bg-slate-600 text-slate-50 font-bold rounded-xl transition-colors border border-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ListPlus size={18} /> Append
+          </button>
+          <button
+            onClick={() => onImport(entries, 'replace')}
+            disabled={entries.length === 0}
+            className="flex items-center justify-center gap-2 py-3 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Replace size={18} /> Replace
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImportModal;
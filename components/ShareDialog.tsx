@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, X, ClipboardCopy, Check, AlertTriangle } from 'lucide-react';
+import { buildShareUrl, LONG_URL_WARNING } from '../utils/share';
+import { copyToClipboard } from '../utils/export';
+import { SavedWheel } from '../types';
+
+interface ShareDialogProps {
+  wheel: SavedWheel | null; // null = closed
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ wheel, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Regenerate the link every time the dialog opens so it reflects the current wheel
+  useEffect(() => {
+    if (!wheel) return;
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+    setCopied(false);
+    buildShareUrl(wheel)
+      .then(link => { if (!cancelled) setUrl(link); })
+      .catch(e => {
+        console.error("Share link failed", e);
+        if (!cancelled) setError('Could not create a share link for this wheel.');
+      });
+    return () => { cancelled = true; };
+  }, [wheel]);
+
+  if (!wheel) return null;
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await copyToClipboard(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy to clipboard failed", e);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl p-6 max-w-lg w-full shadow-2xl relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-50 transition-colors" title="Close">
+          <X size={20} />
+        </button>
+
+        <h2 className="flex items-center gap-2 text-lg font-bold text-slate-200 mb-1">
+          <Share2 size={20} className="text-blue-400" /> Share "{wheel.name}"
+        </h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Anyone with this link opens a copy of this wheel with the same entries, weights, colors and sound settings.
+          Results history is not included.
+        </p>
+
+        {error ? (
+          <div className="text-sm text-red-400 bg-red-900/30 border border-red-900/50 rounded-lg px-3 py-2">{error}</div>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={url ?? 'Generating link...'}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-300 rounded-lg px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <button
+              onClick={handleCopy}
+              disabled={!url}
+              className="flex items-center gap-1 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white text-sm font-bold rounded-lg transition-colors disabled:opacity-40"
+            >
+              {copied ? <Check size={16} /> : <ClipboardCopy size={16} />} {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        )}
+
+        {url && url.length > LONG_URL_WARNING && (
+          <p className="flex items-start gap-2 text-xs text-yellow-400 mt-3">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            This link is {url.length.toLocaleString()} characters long. Some chat apps cut long links off,
+            so check that it opens before sending it around.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
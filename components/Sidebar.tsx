@@ -1,58 +1,389 @@
-import React, { useState } from 'react';
-import { Settings, Users, Trophy, Shuffle, SortAsc, Volume2, Music, Play, RotateCcw } from 'lucide-react';
-import { TickSoundType, WinSoundType, playTickSound, playWinSound } from '../utils/audio';
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, Users, Trophy, Shuffle, SortAsc, Volume2, Music, Play, RotateCcw, Scale, Trash2, Upload, FileText, FileJson, ClipboardCopy, Check, History, Dices, FileCheck, ListOrdered, UsersRound, UserX, CircleDot, Navigation, Type, ImagePlus, X, Palette, Plus, SunMoon, Flag, VolumeX, Drum } from 'lucide-react';
+import { MAX_SOUND_SECONDS, MAX_TICK_SECONDS, Soundtrack, SoundtrackType, TickSound, WinSound, getCustomSoundId, playTickSound, playWinSound, readSoundFile, startSoundtrack } from '../utils/audio';
+import { entriesFromLines, formatOdds, getEntryWeight, getOddsPercent, getTotalWeight, normalizeWeight, withPicture } from '../utils/entries';
+import { MAX_PICTURE_PX, readImageFile } from '../utils/images';
+import { customizeTheme, Theme, THEMES, WheelTheme } from '../utils/themes';
+import { getSegmentColors, MAX_PALETTE_COLORS, MIN_PALETTE_COLORS, PALETTE, PALETTE_PRESETS, toHexColor } from '../utils/colors';
+import { AudioPreferences, Branding, CustomSound, SavedWheel, WheelEntry, WheelSettings, WinnerRecord } from '../types';
+import { DEFAULT_BRAND_TEXTS } from '../utils/defaults';
+import { ImportTable, MAX_IMPORT_BYTES, parseImportFile } from '../utils/importers';
+import { copyToClipboard, downloadFile, formatTimestamp, historyToCsv, historyToJson, historyToText, slugify } from '../utils/export';
+import { commitmentMatchesEntries, FairCommitment } from '../utils/fairness';
+import { MAX_PEGS, MAX_POINTERS, POINTER_POSITIONS, PointerPosition } from '../utils/spin';
+import WheelSwitcher from './WheelSwitcher';
+import FairDrawPanel from './FairDrawPanel';
+import ImportModal, { ImportMode } from './ImportModal';
+import TeamsPanel from './TeamsPanel';
+import EntryPicture from './EntryPicture';
+import { TeamBoard, TeamConfig, TeamDeal } from '../utils/teams';
+
+const SOUNDTRACK_PREVIEW_SECONDS = 4;
 
 interface SidebarProps {
-  items: string[];
-  setItems: (items: string[]) => void;
-  winners: string[];
+  wheels: SavedWheel[];
+  activeWheelId: string;
+  onSelectWheel: (wheelId: string) => void;
+  onCreateWheel: (name: string) => void;
+  onRenameWheel: (wheelId: string, name: string) => void;
+  onDuplicateWheel: (wheelId: string) => void;
+  onDeleteWheel: (wheelId: string) => void;
+  items: WheelEntry[];
+  setItems: (items: WheelEntry[]) => void;
+  winners: WinnerRecord[];
   onClearWinners: () => void;
-  settings: {
-    duration: number;
-    tickSound: TickSoundType;
-    winSound: WinSoundType;
-  };
-  setSettings: (settings: any) => void;
-  isSpinning: boolean;
+  settings: WheelSettings;
+  setSettings: (settings: WheelSettings) => void;
+  onResetToDefaults: () => void;
+  isSpinning: boolean; // Any draw in progress: spins, runs, elimination games and team deals. Locks the entries.
   handleSpin: () => void;
+  onReplay: (record: WinnerRecord) => void;
+  fairCommitment: FairCommitment | null;
+  onCommitFairDraw: () => void;
+  onCancelFairDraw: () => void;
+  teamConfig: TeamConfig;
+  setTeamConfig: (config: TeamConfig) => void;
+  teamDeal: TeamDeal | null;
+  teamBoard: TeamBoard | null;
+  onDealTeams: () => void;
+  onShowTeamBoard: () => void;
+  audio: AudioPreferences;
+  setAudio: (audio: AudioPreferences) => void;
+  onAddSound: (sound: CustomSound, target: 'tickSound' | 'winSound') => Promise<void>;
+  onDeleteSound: (sound: CustomSound) => void;
 }
 
+// Number input that lets the user clear/retype freely and only commits valid weights
+const WeightInput: React.FC<{ value: number; disabled?: boolean; onChange: (weight: number) => void }> = ({ value, disabled = false, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="number"
+      min="0.1"
+      step="any"
+      value={draft ?? value}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(parsed) && parsed > 0) {
+          onChange(normalizeWeight(parsed));
+        }
+      }}
+      onBlur={() => setDraft(null)}
+      disabled={disabled}
+      className="w-16 bg-slate-900 border border-slate-600 text-slate-200 rounded-md px-2 py-1 text-xs text-right focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+      title="Weight (e.g. number of tickets)"
+    />
+  );
+};
+
+// Logo upload with a preview, scaled down like entry pictures before it's stored
+const LogoInput: React.FC<{ value: string; maxSize: number; onChange: (image: string) => void }> = ({ value, maxSize, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(await readImageFile(file, maxSize));
+    } catch (e) {
+      console.error("Reading logo failed", e);
+      setError(e instanceof Error ? e.message : 'Could not read this image.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <div className="w-10 h-10 shrink-0 flex items-center justify-center rounded-lg bg-slate-900 border border-slate-600 overflow-hidden">
+          {value ? <img src={value} alt="" className="w-full h-full object-contain" /> : <ImagePlus size={16} className="text-slate-500" />}
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold px-3 py-1.5 rounded-md border border-slate-600 transition-colors"
+        >
+          <Upload size={12} /> Upload
+        </button>
+        {value && (
+          <button onClick={() => onChange('')} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Remove logo">
+            <X size={14} />
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
+  wheels,
+  activeWheelId,
+  onSelectWheel,
+  onCreateWheel,
+  onRenameWheel,
+  onDuplicateWheel,
+  onDeleteWheel,
   items, 
   setItems, 
   winners, 
   onClearWinners,
   settings, 
   setSettings,
+  onResetToDefaults,
   isSpinning,
-  handleSpin
+  handleSpin,
+  onReplay,
+  fairCommitment,
+  onCommitFairDraw,
+  onCancelFairDraw,
+  teamConfig,
+  setTeamConfig,
+  teamDeal,
+  teamBoard,
+  onDealTeams,
+  onShowTeamBoard,
+  audio,
+  setAudio,
+  onAddSound,
+  onDeleteSound
 }) => {
-  const [activeTab, setActiveTab] = useState<'entries' | 'results' | 'settings'>('entries');
-  const [inputText, setInputText] = useState(items.join('\n'));
+  const [activeTab, setActiveTab] = useState<'entries' | 'results' | 'teams' | 'settings'>('entries');
+  const [inputText, setInputText] = useState(items.map(i => i.label).join('\n'));
+  const totalWeight = getTotalWeight(items);
+  const segmentColors = getSegmentColors(items, settings.palette);
+
+  // File import (picker or drag-and-drop), shown in a preview before touching the entries
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; table: ImportTable } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Picture of one entry at a time is edited under its row in Weights & Odds
+  const pictureInputRef = useRef<HTMLInputElement>(null);
+  const [editingPictureId, setEditingPictureId] = useState<string | null>(null);
+
+  // Sound uploads, picked for the spin or the winner sound and kept for every wheel
+  const soundInputRef = useRef<HTMLInputElement>(null);
+  const [soundTarget, setSoundTarget] = useState<'tickSound' | 'winSound'>('tickSound');
+  const [soundError, setSoundError] = useState<string | null>(null);
+  const soundtrackPreviewRef = useRef<Soundtrack | null>(null);
+
+  useEffect(() => () => soundtrackPreviewRef.current?.stop(), []);
+
+  const [copied, setCopied] = useState(false);
+  const activeWheelName = wheels.find(w => w.id === activeWheelId)?.name ?? 'wheel';
+
+  // Keep the textarea in sync when entries change from outside (winner removed, reset, restore)
+  useEffect(() => {
+    const typedLabels = inputText.split('\n').filter(line => line.trim() !== '');
+    const labels = items.map(i => i.label);
+    if (typedLabels.join('\n') !== labels.join('\n')) {
+      setInputText(labels.join('\n'));
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items]);
+
+  const handleReset = () => {
+    if (window.confirm('Reset this wheel\'s entries, results and settings to their defaults? This cannot be undone.')) {
+      onResetToDefaults();
+    }
+  };
 
   // Update items when textarea changes
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const text = e.target.value;
     setInputText(text);
-    // Filter empty lines
-    const newItems = text.split('\n').filter(line => line.trim() !== '');
-    setItems(newItems);
+    // Filter empty lines, keep weights of entries that are still there
+    const lines = text.split('\n').filter(line => line.trim() !== '');
+    setItems(entriesFromLines(lines, items));
+  };
+
+  const handleWeightChange = (index: number, weight: number) => {
+    const next = [...items];
+    next[index] = { ...next[index], weight };
+    setItems(next);
+  };
+
+  // No color means the entry takes its color from the palette
+  const handleColorChange = (index: number, color: string | undefined) => {
+    const next = [...items];
+    const { color: _previous, ...entry } = next[index];
+    next[index] = color ? { ...entry, color } : entry;
+    setItems(next);
+  };
+
+  const setPaletteColor = (index: number, color: string) => {
+    setSettings({ ...settings, palette: settings.palette.map((c, i) => i === index ? color : c) });
+  };
+
+  const addPaletteColor = () => {
+    const unused = PALETTE.find(color => !settings.palette.includes(color)) ?? '#ffffff';
+    setSettings({ ...settings, palette: [...settings.palette, unused] });
+  };
+
+  const removePaletteColor = (index: number) => {
+    setSettings({ ...settings, palette: settings.palette.filter((_, i) => i !== index) });
+  };
+
+  // Any change to a built-in theme makes it this wheel's custom theme
+  const updateTheme = (changes: Partial<Pick<Theme, 'base' | 'accent'>>, wheel: Partial<WheelTheme> = {}) => {
+    setSettings({ ...settings, theme: customizeTheme(settings.theme, changes, wheel) });
+  };
+
+  const updateBranding = (changes: Partial<Branding>) => {
+    setSettings({ ...settings, branding: { ...settings.branding, ...changes } });
+  };
+
+  const pickSoundFile = (target: 'tickSound' | 'winSound') => {
+    setSoundTarget(target);
+    setSoundError(null);
+    soundInputRef.current?.click();
+  };
+
+  const handleSoundFile = async (file: File | undefined) => {
+    if (!file) return;
+    const target = soundTarget;
+    let sound: CustomSound;
+    try {
+      sound = await readSoundFile(file, target === 'tickSound' ? MAX_TICK_SECONDS : MAX_SOUND_SECONDS);
+    } catch (e) {
+      console.error("Reading sound failed", e);
+      setSoundError(e instanceof Error ? e.message : 'Could not read this sound.');
+      return;
+    }
+    try {
+      await onAddSound(sound, target);
+    } catch (e) {
+      console.error("Storing sound failed", e);
+      setSoundError('The browser has no room to keep this sound. Delete other sounds, or use a shorter one.');
+    }
+  };
+
+  // A few seconds of the soundtrack, resolving into the winner sound like at the end of a spin
+  const previewSoundtrack = () => {
+    soundtrackPreviewRef.current?.stop();
+    const soundtrack = startSoundtrack(settings.soundtrack, SOUNDTRACK_PREVIEW_SECONDS);
+    soundtrackPreviewRef.current = soundtrack;
+    if (!soundtrack) return;
+    window.setTimeout(() => {
+      if (soundtrackPreviewRef.current !== soundtrack) return; // Replaced by a newer preview
+      soundtrack.stop();
+      soundtrackPreviewRef.current = null;
+      playWinSound(settings.winSound);
+    }, SOUNDTRACK_PREVIEW_SECONDS * 1000);
+  };
+
+  const handlePictureChange = (index: number, text: string) => {
+    const next = [...items];
+    next[index] = withPicture(next[index], text);
+    setItems(next);
+  };
+
+  const handlePictureFile = async (file: File | undefined) => {
+    const index = items.findIndex(i => i.id === editingPictureId);
+    if (!file || index === -1) return;
+    setImportError(null);
+    try {
+      handlePictureChange(index, await readImageFile(file));
+    } catch (e) {
+      console.error("Reading picture failed", e);
+      setImportError(e instanceof Error ? e.message : 'Could not read this image.');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    if (file.size > MAX_IMPORT_BYTES) {
+      setImportError(`"${file.name}" is too large to import.`);
+      return;
+    }
+    try {
+      const table = parseImportFile(file.name, await file.text());
+      setPendingImport({ fileName: file.name, table });
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Could not read this file.');
+    }
+  };
+
+  const handleImport = (imported: WheelEntry[], mode: ImportMode) => {
+    setItems(mode === 'replace' ? imported : [...items, ...imported]);
+    setPendingImport(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isSpinning) return;
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const exportHistory = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `${slugify(activeWheelName)}-results-${date}.${format}`;
+    if (format === 'csv') {
+      downloadFile(fileName, historyToCsv(winners), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(fileName, historyToJson(winners), 'application/json');
+    }
+  };
+
+  const copyHistory = async () => {
+    try {
+      await copyToClipboard(historyToText(winners));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy to clipboard failed", e);
+    }
+  };
+
+  const downloadReceipt = (record: WinnerRecord) => {
+    if (!record.receipt) return;
+    const fileName = `${slugify(record.wheelName)}-receipt-${record.receipt.spunAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    downloadFile(fileName, JSON.stringify(record.receipt, null, 2), 'application/json');
   };
 
   const shuffleItems = () => {
     const shuffled = [...items].sort(() => Math.random() - 0.5);
     setItems(shuffled);
-    setInputText(shuffled.join('\n'));
+    setInputText(shuffled.map(i => i.label).join('\n'));
   };
 
   const sortItems = () => {
-    const sorted = [...items].sort((a, b) => a.localeCompare(b));
+    const sorted = [...items].sort((a, b) => a.label.localeCompare(b.label));
     setItems(sorted);
-    setInputText(sorted.join('\n'));
+    setInputText(sorted.map(i => i.label).join('\n'));
   };
 
   return (
     <div className="h-full flex flex-col bg-slate-800 border-l border-slate-700 w-full md:w-96 shadow-2xl z-20">
+      {/* Wheel Switcher */}
+      <div className="p-3 border-b border-slate-700 bg-slate-900/50">
+        <WheelSwitcher
+          wheels={wheels}
+          activeWheelId={activeWheelId}
+          disabled={isSpinning}
+          onSelect={onSelectWheel}
+          onCreate={onCreateWheel}
+          onRename={onRenameWheel}
+          onDuplicate={onDuplicateWheel}
+          onDelete={onDeleteWheel}
+        />
+      </div>
+
       {/* Tabs */}
       <div className="flex border-b border-slate-700 bg-slate-900/50">
         <button 
@@ -67,6 +398,13 @@ const Sidebar: React.FC<SidebarProps> = ({
         >
           <Trophy size={16} /> Results <span className="bg-slate-700 text-xs py-0.5 px-2 rounded-full text-slate-300">{winners.length}</span>
         </button>
+        <button 
+          onClick={() => setActiveTab('teams')}
+          className={`px-4 py-4 transition-colors ${activeTab === 'teams' ? 'text-blue-400 border-b-2 border-blue-400 bg-slate-800' : 'text-slate-400 hover:text-slate-200'}`}
+          title="Teams"
+        >
+          <UsersRound size={20} />
+        </button>
         <button 
           onClick={() => setActiveTab('settings')}
           className={`px-4 py-4 transition-colors ${activeTab === 'settings' ? 'text-blue-400 border-b-2 border-blue-400 bg-slate-800' : 'text-slate-400 hover:text-slate-200'}`}
@@ -79,39 +417,177 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="flex-1 overflow-y-auto p-4 bg-slate-800">
         
         {activeTab === 'entries' && (
-          <div className="flex flex-col h-full">
+          <div
+            className={`flex flex-col h-full relative rounded-lg transition-colors ${isDragging ? 'ring-2 ring-blue-500 ring-offset-4 ring-offset-slate-800' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+            }}
+            onDrop={handleDrop}
+          >
             <div className="flex gap-2 mb-3">
-              <button onClick={shuffleItems} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Shuffle">
+              <button onClick={shuffleItems} disabled={isSpinning} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700" title="Shuffle">
                 <Shuffle size={14} /> Shuffle
               </button>
-              <button onClick={sortItems} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Sort">
+              <button onClick={sortItems} disabled={isSpinning} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700" title="Sort">
                 <SortAsc size={14} /> Sort
               </button>
+              <button onClick={() => fileInputRef.current?.click()} disabled={isSpinning} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700" title="Import CSV, TSV, JSON or text file">
+                <Upload size={14} /> Import
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.tab,.json,.txt,text/csv,text/tab-separated-values,application/json,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = ''; // Allow picking the same file again
+                }}
+              />
             </div>
+
+            {importError && (
+              <div className="mb-3 text-xs text-red-400 bg-red-900/30 border border-red-900/50 rounded-lg px-3 py-2">
+                {importError}
+              </div>
+            )}
             
             <textarea
-              className="flex-1 w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none font-medium text-sm leading-relaxed shadow-inner"
+              className="flex-1 w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none font-medium text-sm leading-relaxed shadow-inner disabled:opacity-60"
               value={inputText}
               onChange={handleTextChange}
               placeholder="Enter names here..."
               spellCheck={false}
+              disabled={isSpinning}
             />
-             <p className="text-xs text-slate-500 mt-2 text-center">Enter one name per line</p>
+             <p className="text-xs text-slate-500 mt-2 text-center">
+               {isSpinning ? 'Entries are locked until the draw finishes' : 'Enter one name per line, or drop a CSV, TSV, JSON or text file here'}
+             </p>
+
+            {/* Weights & Odds */}
+            {items.length > 0 && (
+              <div className="mt-4 bg-slate-700/30 rounded-xl border border-slate-700">
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700 text-sm font-medium text-slate-300">
+                  <Scale size={16} className="text-slate-400"/> Weights & Odds
+                </div>
+                <ul className="max-h-60 overflow-y-auto divide-y divide-slate-700/60">
+                  {items.map((item, idx) => (
+                    <li key={item.id} className="px-3 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setEditingPictureId(editingPictureId === item.id ? null : item.id)}
+                          disabled={isSpinning}
+                          className={`w-7 h-7 shrink-0 flex items-center justify-center rounded-md overflow-hidden border transition-colors disabled:cursor-not-allowed ${editingPictureId === item.id ? 'border-blue-500' : 'border-slate-600 hover:border-slate-400'}`}
+                          title="Picture"
+                        >
+                          <EntryPicture entry={item} className="w-full h-full" emojiClassName="text-base" fallback={<ImagePlus size={14} className="text-slate-500" />} />
+                        </button>
+                        <label
+                          className={`relative w-4 h-4 shrink-0 rounded-full border ${isSpinning ? 'cursor-not-allowed' : 'cursor-pointer'} ${item.color ? 'border-white' : 'border-slate-500'}`}
+                          style={{ backgroundColor: segmentColors[idx] }}
+                          title={item.color ? 'Own color' : 'Palette color, click to pick another'}
+                        >
+                          <input
+                            type="color"
+                            value={toHexColor(segmentColors[idx])}
+                            onChange={(e) => handleColorChange(idx, e.target.value)}
+                            disabled={isSpinning}
+                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+                          />
+                        </label>
+                        <span className="flex-1 truncate text-sm text-slate-200" title={item.label}>{item.label}</span>
+                        {item.color && !isSpinning && (
+                          <button onClick={() => handleColorChange(idx, undefined)} className="text-slate-500 hover:text-slate-300 transition-colors" title="Back to the palette color">
+                            <RotateCcw size={12} />
+                          </button>
+                        )}
+                        <WeightInput value={getEntryWeight(item)} disabled={isSpinning} onChange={(weight) => handleWeightChange(idx, weight)} />
+                        <span className="w-12 text-right text-xs font-mono text-blue-400">
+                          {formatOdds(getOddsPercent(item, totalWeight))}
+                        </span>
+                      </div>
+                      {editingPictureId === item.id && !isSpinning && (
+                        <div className="flex items-center gap-2 mt-1.5 mb-1">
+                          <input
+                            type="text"
+                            // Uploaded pictures are data URLs, too long to be worth showing
+                            value={item.image?.startsWith('data:') ? '' : item.image ?? item.emoji ?? ''}
+                            onChange={(e) => handlePictureChange(idx, e.target.value)}
+                            placeholder={item.image?.startsWith('data:') ? 'Uploaded image' : 'Emoji or image URL'}
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            autoFocus
+                          />
+                          <button
+                            onClick={() => pictureInputRef.current?.click()}
+                            className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold px-2 py-1 rounded-md border border-slate-600 transition-colors"
+                            title="Upload image"
+                          >
+                            <Upload size={12} /> Upload
+                          </button>
+                          <button
+                            onClick={() => handlePictureChange(idx, '')}
+                            disabled={!item.image && !item.emoji}
+                            className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+                            title="Remove picture"
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <input
+                  ref={pictureInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    handlePictureFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            )}
           </div>
         )}
 
         {activeTab === 'results' && (
           <div className="space-y-4">
+            <FairDrawPanel
+              commitment={fairCommitment}
+              entriesMatch={!fairCommitment || commitmentMatchesEntries(fairCommitment, items)}
+              disabled={isSpinning || items.length === 0}
+              onCommit={onCommitFairDraw}
+              onCancel={onCancelFairDraw}
+            />
+
             {winners.length > 0 && (
               <button 
                 type="button"
                 onClick={onClearWinners}
-                className="w-full flex items-center justify-center gap-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 text-xs font-bold py-3 rounded-lg border border-red-900/50 transition-colors cursor-pointer"
+                disabled={isSpinning}
+                className="w-full flex items-center justify-center gap-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 text-xs font-bold py-3 rounded-lg border border-red-900/50 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-red-900/30"
               >
                 <RotateCcw size={14} /> Reset Winners
               </button>
             )}
 
+            {winners.length > 0 && (
+              <div className="flex gap-2">
+                <button onClick={() => exportHistory('csv')} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Download results as CSV">
+                  <FileText size={14} /> CSV
+                </button>
+                <button onClick={() => exportHistory('json')} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Download results as JSON">
+                  <FileJson size={14} /> JSON
+                </button>
+                <button onClick={copyHistory} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Copy results to clipboard">
+                  {copied ? <Check size={14} className="text-green-400" /> : <ClipboardCopy size={14} />} {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            )}
+
             {winners.length === 0 ? (
               <div className="text-center text-slate-500 mt-10">
                 <p>No winners yet.</p>
@@ -120,11 +596,43 @@ const Sidebar: React.FC<SidebarProps> = ({
             ) : (
               <ul className="space-y-2">
                 {winners.map((winner, idx) => (
-                  <li key={idx} className="bg-slate-700/50 p-3 rounded-lg flex items-center gap-3 border border-slate-600 animate-[fadeIn_0.3s_ease-out]">
+                  <li key={winner.id} className="bg-slate-700/50 p-3 rounded-lg flex items-center gap-3 border border-slate-600 animate-[fadeIn_0.3s_ease-out]">
                     <span className="flex items-center justify-center w-6 h-6 bg-yellow-500/20 text-yellow-500 rounded-full text-xs font-bold">
                       {winners.length - idx}
                     </span>
-                    <span className="font-medium text-slate-200">{winner}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-slate-200 truncate">{winner.entry.label}</div>
+                      <div className="text-[11px] text-slate-500">
+                        {formatTimestamp(winner.timestamp)}
+                        {winner.entries.length > 0 && ` · ${winner.entries.length} entries`}
+                        {winner.batch && (winner.batch.pointers
+                          ? ` · pointer ${winner.batch.draw} of ${winner.batch.size}`
+                          : ` · ${winner.batch.draw} of ${winner.batch.size} in one run`)}
+                        {winner.elimination && ` · last one standing`}
+                        {winner.spin && (winner.spin.velocity !== undefined
+                          ? <span title="Flung by hand"> · flung at {Math.round(Math.abs(winner.spin.velocity))}°/s</span>
+                          : <span className="font-mono" title="Spin seed"> · {winner.spin.seed}</span>)}
+                      </div>
+                    </div>
+                    {winner.receipt && (
+                      <button
+                        onClick={() => downloadReceipt(winner)}
+                        className="p-1.5 text-green-400 hover:text-green-300 hover:bg-slate-600 rounded-md transition-colors"
+                        title="Download fair draw receipt"
+                      >
+                        <FileCheck size={16} />
+                      </button>
+                    )}
+                    {winner.spin && winner.entries.length > 0 && (
+                      <button
+                        onClick={() => onReplay(winner)}
+                        disabled={isSpinning}
+                        className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Replay this spin"
+                      >
+                        <History size={16} />
+                      </button>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -132,6 +640,19 @@ const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
 
+        {activeTab === 'teams' && (
+          <TeamsPanel
+            items={items}
+            config={teamConfig}
+            setConfig={setTeamConfig}
+            deal={teamDeal}
+            board={teamBoard}
+            disabled={isSpinning}
+            onDeal={onDealTeams}
+            onShowBoard={onShowTeamBoard}
+          />
+        )}
+
         {activeTab === 'settings' && (
           <div className="space-y-6">
             
@@ -151,6 +672,378 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             </div>
 
+            {/* Pointers */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <Navigation size={16} className="text-slate-400"/> Pointer
+              </label>
+              <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-600 mb-3">
+                {(Object.keys(POINTER_POSITIONS) as PointerPosition[]).map(position => (
+                  <button
+                    key={position}
+                    onClick={() => setSettings({...settings, pointerPosition: position})}
+                    disabled={isSpinning || fairCommitment !== null}
+                    className={`flex-1 py-1.5 text-xs font-bold rounded-md capitalize transition-colors disabled:cursor-not-allowed ${settings.pointerPosition === position ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200 disabled:hover:text-slate-400 disabled:opacity-40'}`}
+                  >
+                    {position}
+                  </button>
+                ))}
+              </div>
+              <label className="block text-xs text-slate-400 mb-2">Number of pointers</label>
+              <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-600">
+                {Array.from({ length: MAX_POINTERS }, (_, i) => i + 1).map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setSettings({...settings, pointerCount: count})}
+                    disabled={isSpinning}
+                    className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors disabled:cursor-not-allowed ${settings.pointerCount === count ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200 disabled:hover:text-slate-400 disabled:opacity-40'}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+              {fairCommitment && (
+                <p className="text-xs text-slate-500 mt-2">
+                  The pointer is part of the published commitment and stays put until the fair draw is spun or cancelled.
+                </p>
+              )}
+              {settings.pointerCount > 1 && (
+                <p className="text-xs text-slate-500 mt-2">
+                  Each pointer picks its own winner, recorded together. Multi-winner runs, elimination, team deals and fair draws use the first pointer only.
+                </p>
+              )}
+            </div>
+
+            {/* Pegs */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 cursor-pointer">
+                <CircleDot size={16} className="text-slate-400"/>
+                <span className="flex-1">Pegs &amp; Flapper</span>
+                <input
+                  type="checkbox"
+                  checked={settings.pegs}
+                  onChange={(e) => setSettings({...settings, pegs: e.target.checked})}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-slate-500 mt-2">
+                Pegs between the segments knock the pointer aside and hold a slow wheel back. Wheels with more than {MAX_PEGS} entries spin without them.
+              </p>
+            </div>
+
+            {/* Labels */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 cursor-pointer">
+                <Type size={16} className="text-slate-400"/>
+                <span className="flex-1">Curved Labels</span>
+                <input
+                  type="checkbox"
+                  checked={settings.curvedLabels}
+                  onChange={(e) => setSettings({...settings, curvedLabels: e.target.checked})}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-slate-500 mt-2">
+                Write labels along the rim. Labels are sized to fit their segment either way, hover a segment to see its full label.
+              </p>
+            </div>
+
+            {/* Colors */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <Palette size={16} className="text-slate-400"/> Colors
+              </label>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {PALETTE_PRESETS.map(preset => (
+                  <button
+                    key={preset.id}
+                    onClick={() => setSettings({...settings, palette: preset.colors})}
+                    className={`p-2 rounded-lg border text-left transition-colors ${preset.colors.join() === settings.palette.join() ? 'border-blue-500 bg-blue-600/10' : 'border-slate-600 hover:border-slate-400'}`}
+                  >
+                    <div className="flex h-3 rounded overflow-hidden mb-1.5">
+                      {preset.colors.map(color => <span key={color} className="flex-1" style={{ backgroundColor: color }} />)}
+                    </div>
+                    <span className="text-xs font-medium text-slate-300">{preset.name}</span>
+                  </button>
+                ))}
+              </div>
+              <label className="block text-xs text-slate-400 mb-2">Palette</label>
+              <div className="flex flex-wrap gap-2">
+                {settings.palette.map((color, i) => (
+                  <div key={i} className="relative group">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => setPaletteColor(i, e.target.value)}
+                      className="block w-8 h-8 rounded-md cursor-pointer bg-transparent border border-slate-600"
+                      title={color}
+                    />
+                    {settings.palette.length > MIN_PALETTE_COLORS && (
+                      <button
+                        onClick={() => removePaletteColor(i)}
+                        className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-slate-900 border border-slate-600 text-slate-400 hover:text-red-400"
+                        title="Remove color"
+                      >
+                        <X size={10} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {settings.palette.length < MAX_PALETTE_COLORS && (
+                  <button
+                    onClick={addPaletteColor}
+                    className="w-8 h-8 flex items-center justify-center rounded-md border border-dashed border-slate-500 text-slate-400 hover:text-slate-200 hover:border-slate-300 transition-colors"
+                    title="Add color"
+                  >
+                    <Plus size={14} />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                Neighboring segments never share a palette color. Pick an entry&apos;s own color next to its name under Weights &amp; Odds.
+              </p>
+            </div>
+
+            {/* Theme */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <SunMoon size={16} className="text-slate-400"/> Theme
+              </label>
+              <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-600 mb-4">
+                {THEMES.map(theme => (
+                  <button
+                    key={theme.id}
+                    onClick={() => setSettings({...settings, theme})}
+                    className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors ${settings.theme.id === theme.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {theme.name}
+                  </button>
+                ))}
+                {settings.theme.id === 'custom' && (
+                  <span className="flex-1 py-1.5 text-xs font-bold rounded-md text-center bg-blue-600 text-white">{settings.theme.name}</span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2">Mode</label>
+                  <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-600">
+                    {(['dark', 'light'] as const).map(base => (
+                      <button
+                        key={base}
+                        onClick={() => updateTheme({ base })}
+                        className={`flex-1 py-1 text-xs font-bold rounded-md capitalize transition-colors ${settings.theme.base === base ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                      >
+                        {base}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2">Accent</label>
+                  <input
+                    type="color"
+                    value={settings.theme.accent}
+                    onChange={(e) => updateTheme({ accent: e.target.value })}
+                    className="block w-full h-8 rounded-md cursor-pointer bg-transparent border border-slate-600"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2">Hub</label>
+                  <input
+                    type="color"
+                    value={toHexColor(settings.theme.wheel.hub)}
+                    onChange={(e) => updateTheme({}, { hub: e.target.value })}
+                    className="block w-full h-8 rounded-md cursor-pointer bg-transparent border border-slate-600"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center justify-between text-xs text-slate-400 mb-2">
+                    Pointer
+                    <span className="flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={settings.theme.wheel.pointer === null}
+                        onChange={(e) => updateTheme({}, { pointer: e.target.checked ? null : '#f43f5e' })}
+                        className="accent-blue-500"
+                      />
+                      Match segment
+                    </span>
+                  </label>
+                  <input
+                    type="color"
+                    value={toHexColor(settings.theme.wheel.pointer ?? '#f43f5e')}
+                    onChange={(e) => updateTheme({}, { pointer: e.target.value })}
+                    disabled={settings.theme.wheel.pointer === null}
+                    className="block w-full h-8 rounded-md cursor-pointer bg-transparent border border-slate-600 disabled:opacity-40 disabled:cursor-default"
+                  />
+                </div>
+              </div>
+              <label className="block text-xs text-slate-400 mt-4 mb-2">Gloss</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={settings.theme.wheel.gloss}
+                onChange={(e) => updateTheme({}, { gloss: Number(e.target.value) })}
+                className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Saved with this wheel. The light theme suits bright rooms and projectors.
+              </p>
+            </div>
+
+            {/* Branding */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                <Flag size={16} className="text-slate-400"/> Branding
+              </label>
+              {([
+                ['title', 'Title'],
+                ['winnerHeadline', 'Winner headline'],
+                ['introText', 'Intro text'],
+              ] as const).map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-xs text-slate-400 mb-1">{label}</label>
+                  <input
+                    type="text"
+                    value={settings.branding[key]}
+                    onChange={(e) => updateBranding({ [key]: e.target.value })}
+                    placeholder={DEFAULT_BRAND_TEXTS[key]}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Hub</label>
+                <input
+                  type="text"
+                  value={settings.branding.hubText}
+                  onChange={(e) => updateBranding({ hubText: e.target.value })}
+                  placeholder={DEFAULT_BRAND_TEXTS.hubText}
+                  disabled={settings.branding.hubImage !== ''}
+                  className="w-full mb-2 bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-40"
+                />
+                <LogoInput value={settings.branding.hubImage} maxSize={MAX_PICTURE_PX} onChange={(hubImage) => updateBranding({ hubImage })} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Intro logo</label>
+                <LogoInput value={settings.branding.introImage} maxSize={512} onChange={(introImage) => updateBranding({ introImage })} />
+              </div>
+              <p className="text-xs text-slate-500">
+                Saved with this wheel. A hub logo replaces the lights and the hub text.
+              </p>
+            </div>
+
+            {/* Elimination */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 cursor-pointer">
+                <UserX size={16} className="text-slate-400"/>
+                <span className="flex-1">Elimination Mode</span>
+                <input
+                  type="checkbox"
+                  checked={settings.elimination}
+                  onChange={(e) => setSettings({...settings, elimination: e.target.checked})}
+                  className="accent-blue-500"
+                />
+              </label>
+              <p className="text-xs text-slate-500 mt-2">
+                Each spin knocks out the entry it lands on, until only the winner is left. Your entry list is not changed.
+              </p>
+              {settings.elimination && (
+                <div className="mt-4">
+                  <label className="block text-xs text-slate-400 mb-2">Duration of the following spins</label>
+                  <div className="flex items-center gap-4">
+                    <input
+                      type="range"
+                      min="1"
+                      max="30"
+                      value={settings.followUpDuration}
+                      onChange={(e) => setSettings({...settings, followUpDuration: Number(e.target.value)})}
+                      className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <span className="text-blue-400 font-mono font-bold w-10 text-right">{settings.followUpDuration}s</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Multiple Winners */}
+            {!settings.elimination && (
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <ListOrdered size={16} className="text-slate-400"/> Winners per Spin
+              </label>
+              <div className="flex items-center gap-4">
+                <input
+                  type="range"
+                  min="1"
+                  max="20"
+                  value={settings.winnersPerRun}
+                  onChange={(e) => setSettings({...settings, winnersPerRun: Number(e.target.value)})}
+                  className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="text-blue-400 font-mono font-bold w-10 text-right">{settings.winnersPerRun}</span>
+              </div>
+              {settings.winnersPerRun > 1 && (
+                <div className="mt-4 space-y-4">
+                  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.removeWinners}
+                      onChange={(e) => setSettings({...settings, removeWinners: e.target.checked})}
+                      className="accent-blue-500"
+                    />
+                    Remove each winner before the next spin
+                  </label>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-2">Duration of the following spins</label>
+                    <div className="flex items-center gap-4">
+                      <input
+                        type="range"
+                        min="1"
+                        max="30"
+                        value={settings.followUpDuration}
+                        onChange={(e) => setSettings({...settings, followUpDuration: Number(e.target.value)})}
+                        className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                      />
+                      <span className="text-blue-400 font-mono font-bold w-10 text-right">{settings.followUpDuration}s</span>
+                    </div>
+                  </div>
+                  {fairCommitment && (
+                    <p className="text-xs text-yellow-400">A published fair draw commitment covers a single spin, so the next spin draws one winner.</p>
+                  )}
+                </div>
+              )}
+            </div>
+            )}
+
+            {/* Volume */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <Volume2 size={16} className="text-slate-400"/> Volume
+              </label>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => setAudio({ ...audio, muted: !audio.muted })}
+                  className={`p-2 rounded-lg border transition-colors ${audio.muted ? 'bg-red-900/30 border-red-900/50 text-red-400' : 'bg-slate-900 border-slate-600 text-slate-300 hover:text-slate-100'}`}
+                  title={audio.muted ? 'Unmute' : 'Mute'}
+                >
+                  {audio.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+                </button>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(audio.volume * 100)}
+                  onChange={(e) => setAudio({ ...audio, volume: Number(e.target.value) / 100, muted: false })}
+                  className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="text-blue-400 font-mono font-bold w-10 text-right">{audio.muted ? 'Off' : `${Math.round(audio.volume * 100)}%`}</span>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">For this device, on every wheel.</p>
+            </div>
+
             {/* Tick Sound */}
             <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
               <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
@@ -160,25 +1053,85 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <select 
                   value={settings.tickSound}
                   onChange={(e) => {
-                      const newSound = e.target.value as TickSoundType;
+                      const newSound = e.target.value as TickSound;
                       setSettings({...settings, tickSound: newSound});
                   }}
-                  className="flex-1 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 focus:ring-blue-500 focus:border-blue-500 outline-none"
                 >
                   <option value="soft">Soft Blip</option>
                   <option value="mechanical">Mechanical Click</option>
                   <option value="crisp">Crisp Tick</option>
                   <option value="pop">Pop</option>
                   <option value="game">Retro Game</option>
+                  {audio.sounds.length > 0 && (
+                    <optgroup label="Your sounds">
+                      {audio.sounds.map(sound => <option key={sound.id} value={getCustomSoundId(sound)}>{sound.name}</option>)}
+                    </optgroup>
+                  )}
                 </select>
                 <button 
                   onClick={() => playTickSound(settings.tickSound)}
-                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors border border-slate-500"
+                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-slate-50 rounded-lg transition-colors border border-slate-500"
                   title="Preview Sound"
                 >
                   <Play size={20} />
                 </button>
+                <button
+                  onClick={() => pickSoundFile('tickSound')}
+                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-slate-50 rounded-lg transition-colors border border-slate-500"
+                  title="Upload a sound"
+                >
+                  <Upload size={20} />
+                </button>
               </div>
+              {soundError && soundTarget === 'tickSound' && <p className="text-xs text-red-400 mt-2">{soundError}</p>}
+              <p className="text-xs text-slate-500 mt-2">Ticks get higher and louder the faster the wheel turns.</p>
+            </div>
+
+            {/* Soundtrack */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <Drum size={16} className="text-slate-400"/> Soundtrack
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={settings.soundtrack}
+                  onChange={(e) => setSettings({...settings, soundtrack: e.target.value as SoundtrackType})}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                >
+                  <option value="none">None</option>
+                  <option value="drumroll">Drumroll</option>
+                  <option value="riser">Rising Synth</option>
+                </select>
+                <button
+                  onClick={previewSoundtrack}
+                  disabled={settings.soundtrack === 'none'}
+                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-slate-50 rounded-lg transition-colors border border-slate-500 disabled:opacity-40 disabled:hover:bg-slate-600"
+                  title="Preview Soundtrack"
+                >
+                  <Play size={20} />
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">Builds up over the whole spin and ends on the winner sound.</p>
+            </div>
+
+            {/* Seed */}
+            <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+                <Dices size={16} className="text-slate-400"/> Random Seed
+              </label>
+              <input
+                type="text"
+                value={settings.seed}
+                onChange={(e) => setSettings({...settings, seed: e.target.value})}
+                placeholder="Random every spin"
+                spellCheck={false}
+                className="w-full bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 font-mono text-sm focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                With a seed, draw #1 uses "seed/1", draw #2 "seed/2" and so on, so the same sequence can be reproduced.
+                Every result can be replayed from the Results tab.
+              </p>
             </div>
 
             {/* Win Sound */}
@@ -190,31 +1143,89 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <select 
                   value={settings.winSound}
                   onChange={(e) => {
-                      const newSound = e.target.value as WinSoundType;
+                      const newSound = e.target.value as WinSound;
                       setSettings({...settings, winSound: newSound});
                   }}
-                  className="flex-1 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg p-2.5 focus:ring-blue-500 focus:border-blue-500 outline-none"
                 >
                   <option value="fanfare">Fanfare</option>
                   <option value="success">Success Chime</option>
                   <option value="magic">Magic Sparkle</option>
                   <option value="arcade">Arcade Win</option>
                   <option value="piano">Piano Chord</option>
+                  {audio.sounds.length > 0 && (
+                    <optgroup label="Your sounds">
+                      {audio.sounds.map(sound => <option key={sound.id} value={getCustomSoundId(sound)}>{sound.name}</option>)}
+                    </optgroup>
+                  )}
                 </select>
                 <button 
                   onClick={() => playWinSound(settings.winSound)}
-                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors border border-slate-500"
+                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-slate-50 rounded-lg transition-colors border border-slate-500"
                   title="Preview Sound"
                 >
                   <Play size={20} />
                 </button>
+                <button
+                  onClick={() => pickSoundFile('winSound')}
+                  className="p-2.5 bg-slate-600 hover:bg-slate-500 text-slate-50 rounded-lg transition-colors border border-slate-500"
+                  title="Upload a sound"
+                >
+                  <Upload size={20} />
+                </button>
               </div>
+              {soundError && soundTarget === 'winSound' && <p className="text-xs text-red-400 mt-2">{soundError}</p>}
             </div>
+
+            <input
+              ref={soundInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                handleSoundFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+
+            {/* Uploaded Sounds */}
+            {audio.sounds.length > 0 && (
+              <div className="bg-slate-700/30 rounded-xl border border-slate-700">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-700 text-sm font-medium text-slate-300">
+                  <Music size={16} className="text-slate-400"/> Your Sounds
+                </div>
+                <ul className="divide-y divide-slate-700/60">
+                  {audio.sounds.map(sound => (
+                    <li key={sound.id} className="flex items-center gap-2 px-4 py-2">
+                      <span className="flex-1 truncate text-sm text-slate-200" title={sound.name}>{sound.name}</span>
+                      <button onClick={() => playWinSound(getCustomSoundId(sound))} className="p-1 text-slate-400 hover:text-slate-200 transition-colors" title="Preview Sound">
+                        <Play size={14} />
+                      </button>
+                      <button onClick={() => onDeleteSound(sound)} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Delete sound">
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-slate-500 px-4 pb-3">Wheels using a deleted sound go back to the default one.</p>
+              </div>
+            )}
             
+            {/* Reset */}
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={isSpinning}
+              className="w-full flex items-center justify-center gap-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 text-xs font-bold py-3 rounded-lg border border-red-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 size={14} /> Reset to Defaults
+            </button>
+
              <div className="pt-4 border-t border-slate-700 mt-auto">
                 <h3 className="text-xs uppercase font-bold text-slate-500 mb-2">About</h3>
                 <p className="text-xs text-slate-400">
                   This app runs entirely in your browser. No data is sent to any server.
+                  Your entries, results and settings are saved in this browser automatically.
                 </p>
             </div>
           </div>
@@ -222,6 +1233,15 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       </div>
       
+      {pendingImport && (
+        <ImportModal
+          fileName={pendingImport.fileName}
+          table={pendingImport.table}
+          onCancel={() => setPendingImport(null)}
+          onImport={handleImport}
+        />
+      )}
+
       {/* Mobile Spin Button */}
       <div className="p-4 border-t border-slate-700 bg-slate-900 md:hidden">
          <button
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Team } from '../utils/teams';
+import { getSegmentColor } from '../utils/colors';
+
+interface TeamBoardProps {
+  teams: Team[];
+  capacities?: number[]; // Planned sizes, shown while a deal is in progress
+  compact?: boolean;
+}
+
+// Grid of teams and their members, used for the live deal and the finished board
+const TeamBoard: React.FC<TeamBoardProps> = ({ teams, capacities, compact = false }) => {
+  return (
+    <div className={`grid gap-3 ${compact ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'}`}>
+      {teams.map((team, i) => (
+        <div key={team.name} className="bg-slate-700/40 border border-slate-700 rounded-xl overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700" style={{ boxShadow: `inset 4px 0 0 ${getSegmentColor(i, teams.length)}` }}>
+            <span className={`flex-1 font-bold text-slate-200 truncate ${compact ? 'text-xs' : 'text-sm'}`}>{team.name}</span>
+            <span className="text-[11px] font-mono text-slate-400">
+              {team.members.length}{capacities ? `/${capacities[i]}` : ''}
+            </span>
+          </div>
+          <ul className={`px-3 py-2 space-y-1 ${compact ? 'text-xs' : 'text-sm'}`}>
+            {team.members.map(member => (
+              <li key={member.id} className="text-slate-300 truncate animate-[fadeIn_0.3s_ease-out]" title={member.label}>{member.label}</li>
+            ))}
+            {team.members.length === 0 && <li className="text-slate-500 italic">Empty</li>}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TeamBoard;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { UsersRound, X, FileText, ClipboardCopy, Check, AlertTriangle } from 'lucide-react';
+import { TeamBoard as TeamBoardData } from '../utils/teams';
+import { copyToClipboard, downloadFile, slugify, teamsToCsv, teamsToText } from '../utils/export';
+import TeamBoard from './TeamBoard';
+
+interface TeamBoardModalProps {
+  board: TeamBoardData | null;
+  wheelName: string;
+  onClose: () => void;
+}
+
+const TeamBoardModal: React.FC<TeamBoardModalProps> = ({ board, wheelName, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  if (!board) return null;
+
+  const exportCsv = () => {
+    const date = new Date(board.createdAt).toISOString().slice(0, 10);
+    downloadFile(`${slugify(wheelName)}-teams-${date}.csv`, teamsToCsv(board), 'text/csv;charset=utf-8');
+  };
+
+  const copyTeams = async () => {
+    try {
+      await copyToClipboard(teamsToText(board));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Copy to clipboard failed", e);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-slate-800 border border-slate-600 rounded-3xl p-6 md:p-8 max-w-4xl w-full shadow-2xl relative overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500"></div>
+
+        <div className="flex items-center gap-3 mb-1">
+          <UsersRound size={24} className="text-blue-400" />
+          <h2 className="flex-1 text-xl font-bold text-slate-200">Teams</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-50 transition-colors" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          {board.teams.length} teams · {new Date(board.createdAt).toLocaleString()} · <span className="font-mono" title="Deal seed">{board.seed}</span>
+        </p>
+
+        {board.warnings.length > 0 && (
+          <ul className="mb-4 space-y-1">
+            {board.warnings.map(warning => (
+              <li key={warning} className="flex items-start gap-2 text-xs text-yellow-400">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="overflow-y-auto min-h-0">
+          <TeamBoard teams={board.teams} />
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <button onClick={exportCsv} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-3 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Download teams as CSV">
+            <FileText size={14} /> CSV
+          </button>
+          <button onClick={copyTeams} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-3 rounded-lg transition-colors border border-slate-600 shadow-sm" title="Copy teams to clipboard">
+            {copied ? <Check size={14} className="text-green-400" /> : <ClipboardCopy size={14} />} {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamBoardModal;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { UsersRound, Link2, Unlink, Plus, X, Maximize2, Timer } from 'lucide-react';
+import { WheelEntry } from '../types';
+import { createId } from '../utils/entries';
+import { getTeamCapacities, getTeamCount, TeamBoard as TeamBoardData, TeamConfig, TeamDeal, TeamRuleType } from '../utils/teams';
+import TeamBoard from './TeamBoard';
+
+interface TeamsPanelProps {
+  items: WheelEntry[];
+  config: TeamConfig;
+  setConfig: (config: TeamConfig) => void;
+  deal: TeamDeal | null; // Deal in progress
+  board: TeamBoardData | null; // Last finished deal
+  disabled: boolean;
+  onDeal: () => void;
+  onShowBoard: () => void;
+}
+
+const RULE_LABELS: Record<TeamRuleType, string> = {
+  together: 'Keep together',
+  apart: 'Keep apart',
+};
+
+const TeamsPanel: React.FC<TeamsPanelProps> = ({ items, config, setConfig, deal, board, disabled, onDeal, onShowBoard }) => {
+  const teamCount = getTeamCount(items.length, config.sizing, config.value);
+  const capacities = getTeamCapacities(items.length, teamCount);
+  const labelOf = (id: string) => items.find(e => e.id === id)?.label;
+
+  const addRule = (type: TeamRuleType) => {
+    setConfig({ ...config, rules: [...config.rules, { id: createId(), type, entryIds: [] }] });
+  };
+
+  const updateRule = (ruleId: string, entryIds: string[]) => {
+    setConfig({ ...config, rules: config.rules.map(r => r.id === ruleId ? { ...r, entryIds } : r) });
+  };
+
+  const removeRule = (ruleId: string) => {
+    setConfig({ ...config, rules: config.rules.filter(r => r.id !== ruleId) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Team Size */}
+      <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-3">
+          <UsersRound size={16} className="text-slate-400"/> Teams
+        </label>
+        <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-600 mb-3">
+          {(['count', 'size'] as const).map(sizing => (
+            <button
+              key={sizing}
+              onClick={() => setConfig({ ...config, sizing })}
+              disabled={disabled}
+              className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors ${config.sizing === sizing ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {sizing === 'count' ? 'Number of teams' : 'People per team'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          <input
+            type="range"
+            min={config.sizing === 'count' ? 2 : 1}
+            max={Math.max(2, items.length)}
+            value={config.value}
+            onChange={(e) => setConfig({ ...config, value: Number(e.target.value) })}
+            disabled={disabled}
+            className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          <span className="text-blue-400 font-mono font-bold w-10 text-right">{config.value}</span>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          {teamCount > 1
+            ? `${teamCount} teams of ${capacities[teamCount - 1] === capacities[0] ? capacities[0] : `${capacities[teamCount - 1]}–${capacities[0]}`} from ${items.length} entries`
+            : 'Add more entries or pick a smaller team size to get at least two teams.'}
+        </p>
+
+        <label className="flex items-center gap-2 text-xs text-slate-400 mt-4 mb-2">
+          <Timer size={14}/> Spin duration per pick
+        </label>
+        <div className="flex items-center gap-4">
+          <input
+            type="range"
+            min="1"
+            max="10"
+            value={config.spinDuration}
+            onChange={(e) => setConfig({ ...config, spinDuration: Number(e.target.value) })}
+            disabled={disabled}
+            className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          <span className="text-blue-400 font-mono font-bold w-10 text-right">{config.spinDuration}s</span>
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-slate-700/30 p-4 rounded-xl border border-slate-700">
+        <div className="text-sm font-medium text-slate-300 mb-3">Rules</div>
+        <div className="space-y-3">
+          {config.rules.map(rule => (
+            <div key={rule.id} className="bg-slate-900/60 border border-slate-700 rounded-lg p-2">
+              <div className="flex items-center gap-2 text-xs font-bold text-slate-300 mb-2">
+                {rule.type === 'together' ? <Link2 size={14} className="text-green-400" /> : <Unlink size={14} className="text-orange-400" />}
+                <span className="flex-1">{RULE_LABELS[rule.type]}</span>
+                <button onClick={() => removeRule(rule.id)} disabled={disabled} className="text-slate-500 hover:text-red-400 disabled:opacity-40" title="Delete rule">
+                  <X size={14} />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {rule.entryIds.map(id => labelOf(id) !== undefined && (
+                  <span key={id} className="flex items-center gap-1 bg-slate-700 text-slate-200 text-xs rounded-full pl-2 pr-1 py-0.5">
+                    {labelOf(id)}
+                    <button onClick={() => updateRule(rule.id, rule.entryIds.filter(e => e !== id))} disabled={disabled} className="text-slate-400 hover:text-slate-50" title="Remove from rule">
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && updateRule(rule.id, [...rule.entryIds, e.target.value])}
+                  disabled={disabled}
+                  className="bg-slate-800 border border-slate-600 text-slate-400 text-xs rounded-full px-2 py-0.5 outline-none"
+                >
+                  <option value="">Add person...</option>
+                  {items.filter(e => !rule.entryIds.includes(e.id)).map(e => (
+                    <option key={e.id} value={e.id}>{e.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-3">
+          <button onClick={() => addRule('together')} disabled={disabled} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm disabled:opacity-40">
+            <Plus size={14} /> Together
+          </button>
+          <button onClick={() => addRule('apart')} disabled={disabled} className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-2 rounded-lg transition-colors border border-slate-600 shadow-sm disabled:opacity-40">
+            <Plus size={14} /> Apart
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={onDeal}
+        disabled={disabled || teamCount < 2}
+        className="w-full py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {deal ? 'Dealing...' : 'Deal Teams'}
+      </button>
+
+      {deal && <TeamBoard teams={deal.teams} capacities={deal.capacities} compact />}
+
+      {!deal && board && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs uppercase font-bold text-slate-500">Last teams</span>
+            <button onClick={onShowBoard} className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300">
+              <Maximize2 size={12} /> Open board
+            </button>
+          </div>
+          <TeamBoard teams={board.teams} compact />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamsPanel;
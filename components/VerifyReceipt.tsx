@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, X, Upload, CheckCircle2, XCircle } from 'lucide-react';
+import { DrawReceipt, parseReceipt, verifyReceipt, VerificationResult } from '../utils/fairness';
+
+interface VerifyReceiptProps {
+  onClose: () => void;
+}
+
+// Stand-alone checker: recomputes hashes and the winner from a receipt, entirely in the browser
+const VerifyReceipt: React.FC<VerifyReceiptProps> = ({ onClose }) => {
+  const [text, setText] = useState('');
+  const [receipt, setReceipt] = useState<DrawReceipt | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = async (json: string) => {
+    setResult(null);
+    setReceipt(null);
+    setError(null);
+    try {
+      const parsed = parseReceipt(json);
+      setReceipt(parsed);
+      setResult(await verifyReceipt(parsed));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'This receipt could not be verified.');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let content: string;
+    try {
+      content = await file.text();
+    } catch (e) {
+      console.error("Reading receipt failed", e);
+      setResult(null);
+      setReceipt(null);
+      setError(`${file.name} could not be read.`);
+      return;
+    }
+    setText(content);
+    verify(content);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-md overflow-y-auto p-4 md:p-10 animate-[fadeIn_0.2s_ease-out]">
+      <div className="max-w-2xl mx-auto bg-slate-800 border border-slate-600 rounded-2xl p-6 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-50 transition-colors" title="Close">
+          <X size={20} />
+        </button>
+
+        <h2 className="flex items-center gap-2 text-xl font-bold text-slate-200 mb-1">
+          <ShieldCheck size={22} className="text-blue-400" /> Verify Draw Receipt
+        </h2>
+        <p className="text-sm text-slate-400 mb-5">
+          A fair draw publishes a hash of the entry list and a hash of a secret seed before spinning.
+          The receipt reveals the seed. This page recomputes both hashes and the winner from the seed,
+          without contacting any server.
+        </p>
+
+        <label
+          className="flex items-center justify-center gap-2 w-full py-3 mb-3 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-bold rounded-lg border border-slate-600 cursor-pointer transition-colors"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); handleFile(e.dataTransfer.files[0]); }}
+        >
+          <Upload size={16} /> Choose or drop a receipt file
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="...or paste the receipt JSON here"
+          spellCheck={false}
+          className="w-full h-32 bg-slate-900 border border-slate-600 rounded-lg p-3 text-slate-300 font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y"
+        />
+        <button
+          onClick={() => verify(text)}
+          disabled={!text.trim()}
+          className="w-full mt-3 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Verify
+        </button>
+
+        {error && (
+          <div className="mt-5 text-sm text-red-400 bg-red-900/30 border border-red-900/50 rounded-lg px-3 py-2">{error}</div>
+        )}
+
+        {receipt && result && (
+          <div className="mt-6 space-y-4">
+            <div className={`flex items-center gap-3 p-4 rounded-xl border ${result.ok ? 'bg-green-900/20 border-green-800 text-green-300' : 'bg-red-900/20 border-red-800 text-red-300'}`}>
+              {result.ok ? <ShieldCheck size={28} /> : <ShieldAlert size={28} />}
+              <div>
+                <div className="font-bold">{result.ok ? 'Receipt verified' : 'Verification failed'}</div>
+                <div className="text-sm opacity-80">
+                  Winner from the seed: {result.computedWinner ? result.computedWinner.label : 'none'}
+                  {' · '}Recorded winner: {receipt.winner.label}
+                </div>
+              </div>
+            </div>
+
+            <ul className="space-y-2">
+              {result.checks.map(check => (
+                <li key={check.label} className="flex items-start gap-2 bg-slate-700/40 border border-slate-700 rounded-lg p-3">
+                  {check.ok
+                    ? <CheckCircle2 size={18} className="text-green-400 shrink-0 mt-0.5" />
+                    : <XCircle size={18} className="text-red-400 shrink-0 mt-0.5" />}
+                  <div className="min-w-0">
+                    <div className="text-sm text-slate-200">{check.label}</div>
+                    <div className="text-[11px] text-slate-500 font-mono break-all">{check.detail}</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs">
+              <dt className="text-slate-500">Wheel</dt><dd className="text-slate-300">{receipt.wheelName}</dd>
+              <dt className="text-slate-500">Entries</dt><dd className="text-slate-300">{receipt.entries.length}</dd>
+              <dt className="text-slate-500">Committed</dt><dd className="text-slate-300">{new Date(receipt.committedAt).toLocaleString()}</dd>
+              <dt className="text-slate-500">Spun</dt><dd className="text-slate-300">{new Date(receipt.spunAt).toLocaleString()}</dd>
+              <dt className="text-slate-500">Commitment</dt><dd className="text-slate-300 font-mono break-all">{receipt.commitment}</dd>
+              <dt className="text-slate-500">Seed</dt><dd className="text-slate-300 font-mono break-all">{receipt.seed}</dd>
+              <dt className="text-slate-500">Generator</dt><dd className="text-slate-300 font-mono">{receipt.rng}</dd>
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyReceipt;
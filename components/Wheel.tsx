@@ -1,38 +1,120 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { select, pie as d3Pie, arc as d3Arc, easeCubicInOut, PieArcDatum } from 'd3';
-import { getSegmentColor } from '../utils/colors';
-import { playTickSound, playWinSound, TickSoundType, WinSoundType } from '../utils/audio';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { select, pie as d3Pie, arc as d3Arc, PieArcDatum, interpolate, easeCubicOut } from 'd3';
+import { getSegmentColors, getTextColor, LIGHT_TEXT } from '../utils/colors';
+import { playTickSound, playWinSound, Soundtrack, SoundtrackType, startSoundtrack, TickSound, WinSound } from '../utils/audio';
+import { getEntryWeight } from '../utils/entries';
+import { applyPegHesitation, clampFlingVelocity, createTickTracker, getFlapperPush, getRotationAt, getSegmentEnds, getSpeedAt, getWinnerIndex as getWinnerIndexAt, getWinnerIndices, MAX_PEGS, MIN_FLING_VELOCITY, planFinalRotation, planFling } from '../utils/spin';
+import { CANVAS_MIN_ENTRIES, drawWheelCanvas } from '../utils/wheelCanvas';
+import { createTextMeasurer, fitLabel, getCurvedLineRadius, getPictureSize, LINE_HEIGHT } from '../utils/labels';
+import { WheelTheme } from '../utils/themes';
+import { SpinRecord, SpinRequest, WheelEntry } from '../types';
+
+// How long the remaining segments take to close the gap after entries are removed
+const RELAYOUT_MS = 600;
+
+const WHEEL_MARGIN = 40; // Room around the wheel for the external pointer
+const HUB_RADIUS = 45; // Center hole size
+
+// Release speed is measured over the last moments of a drag
+const FLING_SAMPLE_MS = 100;
+
+// Pegs sit just inside the rim, the flapper reaches in far enough to catch them
+const PEG_INSET = 8;
+const PEG_RADIUS = 4;
+const PEG_CONTACT_PX = 14; // Length of the flapper's edge a passing peg slides along
+const FLAPPER_PIVOT = 30; // Distance from the tip to the hinge
+const FLAPPER_MAX_DEFLECTION = 30; // degrees
+// Spring that snaps the flapper back once a peg lets go, loose enough to wobble
+const FLAPPER_STIFFNESS = 900;
+const FLAPPER_DAMPING = 12;
+
+type SegmentLayout = Map<string, { startAngle: number; endAngle: number }>;
+
+// Circular guide from a segment's start to its end angle, for curved labels to follow
+const labelArcPath = (d: { startAngle: number; endAngle: number }, radius: number) => {
+  // A path can't run a full circle back onto its own start point
+  const endAngle = Math.min(d.endAngle, d.startAngle + 2 * Math.PI - 0.001);
+  const point = (angle: number) => `${radius * Math.sin(angle)},${-radius * Math.cos(angle)}`;
+  return `M${point(d.startAngle)} A${radius},${radius} 0 ${endAngle - d.startAngle > Math.PI ? 1 : 0} 1 ${point(endAngle)}`;
+};
 
 interface WheelProps {
-  items: string[];
+  items: WheelEntry[];
   isSpinning: boolean;
-  onSpinStart: () => void;
-  onSpinEnd: (winner: string) => void;
+  spinRequest: SpinRequest | null; // Seed (and start rotation for replays) of the spin to run
+  onSpinStart: (velocity?: number) => void; // `velocity` in deg/s when the wheel was flung by hand
+  onSpinEnd: (winners: WheelEntry[], spin: SpinRecord) => void; // One winner per pointer, first pointer first
   spinDuration: number; // in seconds
-  tickSoundId: TickSoundType;
-  winSoundId: WinSoundType;
+  tickSoundId: TickSound;
+  winSoundId: WinSound;
+  celebrate: boolean; // Play the win sound when the wheel stops, not for knockouts and team picks
+  soundtrack: SoundtrackType;
+  pegs: boolean;
+  pointerAngles: number[]; // At least one, see getPointerAngles
+  curvedLabels: boolean;
+  palette: string[];
+  theme: WheelTheme;
+  hubText: string;
+  hubImage: string; // Logo shown instead of the LED hub, '' for none
 }
 
 const Wheel: React.FC<WheelProps> = ({ 
   items, 
   isSpinning, 
+  spinRequest,
   onSpinStart, 
   onSpinEnd,
   spinDuration,
   tickSoundId,
-  winSoundId
+  winSoundId,
+  celebrate,
+  soundtrack,
+  pegs,
+  pointerAngles,
+  curvedLabels,
+  palette,
+  theme,
+  hubText,
+  hubImage
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [dimensions, setDimensions] = useState({ width: 500, height: 500 });
+  // Full label of the segment under the mouse, in container coordinates
+  const [hover, setHover] = useState<{ label: string; x: number; y: number } | null>(null);
+  const measureText = useMemo(() => createTextMeasurer(), []);
   
   // Physics state
   const rotationRef = useRef(0);
   const animationFrameRef = useRef<number | null>(null);
-  const lastIndexRef = useRef<number>(-1);
   
   // State to track if we are in the "stopping" phase of the spin to prevent re-triggering logic
   const isFinishedRef = useRef(false);
 
+  // The running spin. Kept across effect re-runs so a re-render mid-spin can't change the outcome,
+  // with the pointers it was planned against.
+  const activeSpinRef = useRef<{ record: SpinRecord; startTime: number | null; pointerAngles: number[] } | null>(null);
+  const soundtrackRef = useRef<Soundtrack | null>(null); // Playing under the current spin
+
+  // Latest callback without restarting the animation effect whenever the parent re-renders
+  const onSpinEndRef = useRef(onSpinEnd);
+  onSpinEndRef.current = onSpinEnd;
+
+  // Segment angles of the last drawn layout, by entry id, to animate from after a removal
+  const layoutRef = useRef<SegmentLayout>(new Map());
+
+  // Wheel held by mouse or touch
+  const dragRef = useRef<{
+    pointerId: number;
+    lastAngle: number;
+    samples: { time: number; rotation: number }[];
+    tickTracker: ReturnType<typeof createTickTracker>;
+    direction: number; // Way the wheel was last turned, for the flapper
+  } | null>(null);
+
+  // Flapper deflection in degrees (positive tilts the tip up) and its spring state, per pointer
+  const flapperRef = useRef<{ angle: number; velocity: number; time: number }[]>([]);
+
   // Keyboard support (Ctrl+Enter)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -64,87 +146,114 @@ const Wheel: React.FC<WheelProps> = ({
   // D3 Drawing (Static Parts)
   // We only redraw the structure when dimensions or items change.
   // The rotation is handled separately in the animation loop for performance.
+  const segmentEnds = useMemo(() => getSegmentEnds(items), [items]);
+  const segmentColors = useMemo(() => getSegmentColors(items, palette), [items, palette]);
+  // Big wheels are painted on a canvas, see utils/wheelCanvas
+  const useCanvas = items.length >= CANVAS_MIN_ENTRIES;
+  const pegsActive = pegs && items.length <= MAX_PEGS;
+
   useEffect(() => {
     drawWheelStructure();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [items, dimensions]); 
-
-  // Helper to determine winner based on pointer at 90 degrees
-  const getWinnerIndex = (rotation: number, totalItems: number) => {
-     // D3 draws 0 degrees at 12 o'clock, clockwise.
-     // The pointer is at 90 degrees (3 o'clock).
-     // When the wheel rotates by `rotation` degrees clockwise:
-     // The segment originally at angle A moves to A + rotation.
-     // We want the segment where (A + rotation) covers 90 degrees.
-     // So A = 90 - rotation.
-     const pointerAngle = 90;
-     const effectiveAngle = (pointerAngle - rotation) % 360;
-     const normalizedAngle = effectiveAngle < 0 ? effectiveAngle + 360 : effectiveAngle;
-     const segmentAngle = 360 / totalItems;
-     return Math.floor(normalizedAngle / segmentAngle);
-  };
+  }, [items, dimensions, pegsActive, pointerAngles, curvedLabels, segmentColors, theme, hubText, hubImage]); 
+
+  // Degrees of wheel turn during which a peg presses on the flapper, never more than half a segment
+  const pegContactAngle = useMemo(() => {
+    if (!pegsActive) return 0;
+    const pegRadius = Math.min(dimensions.width, dimensions.height) / 2 - WHEEL_MARGIN - PEG_INSET;
+    const narrowest = segmentEnds.reduce((min, end, i) => Math.min(min, end - (i === 0 ? 0 : segmentEnds[i - 1])), 360);
+    return Math.min((PEG_CONTACT_PX / pegRadius) * (180 / Math.PI), narrowest / 2);
+  }, [pegsActive, dimensions, segmentEnds]);
+
+  // Helper to determine the segment under a pointer, the first one unless told otherwise
+  const getWinnerIndex = (rotation: number, pointerAngle = pointerAngles[0]) => getWinnerIndexAt(rotation, segmentEnds, pointerAngle);
 
   // Animation Loop (Handles both Idle and Active Spin)
   useEffect(() => {
-    // Reset finish flag when spin starts
-    if (isSpinning) {
+    // Plan the spin once when it starts: the seed decides where it lands
+    if (isSpinning && !activeSpinRef.current && spinRequest) {
         isFinishedRef.current = false;
-        lastIndexRef.current = -1;
+        if (spinRequest.startRotation !== undefined) {
+            rotationRef.current = spinRequest.startRotation;
+        }
+        const startRotation = rotationRef.current;
+        // Flung spins land where the physics take them, all others where the seed says
+        const path = spinRequest.velocity !== undefined
+            ? planFling(startRotation, spinRequest.velocity)
+            : { startRotation, finalRotation: planFinalRotation(startRotation, spinRequest.seed, spinRequest.rng), duration: spinDuration };
+        activeSpinRef.current = {
+            startTime: null,
+            record: { seed: spinRequest.seed, rng: spinRequest.rng, ...path },
+            pointerAngles,
+        };
+        soundtrackRef.current = startSoundtrack(soundtrack, path.duration);
+    }
+    if (!isSpinning) {
+        activeSpinRef.current = null;
+        soundtrackRef.current?.stop(); // Spins that were stopped halfway
+        soundtrackRef.current = null;
     }
 
-    let startTime: number | null = null;
-    const initialRotation = rotationRef.current;
-    
-    // Add extra rotations for speed
-    const totalRotationToAdd = 360 * 10 + Math.random() * 360; 
-    const finalRotation = initialRotation + totalRotationToAdd;
+    // The running spin sticks to the pointers it was planned with, so the seed decides the winners
+    const angles = activeSpinRef.current?.pointerAngles ?? pointerAngles;
+    // The pegs only hold the wheel back with a single pointer: shifting it within the segment under
+    // one pointer could carry a boundary past another
+    const pegHesitation = pegsActive && angles.length === 1;
+
+    // Tick sounds fire whenever a new segment passes the (first) pointer
+    const tickTracker = createTickTracker(segmentEnds, angles[0]);
 
     const tick = (currentTime: number) => {
+        const spin = activeSpinRef.current;
+
         // 1. Calculate Rotation
-        if (isSpinning) {
-            if (!startTime) startTime = currentTime;
-            const elapsed = (currentTime - startTime) / 1000;
+        if (isSpinning && spin) {
+            if (spin.startTime === null) spin.startTime = currentTime;
+            const elapsed = (currentTime - spin.startTime) / 1000;
+            const { startRotation, finalRotation, duration } = spin.record;
+            const direction = Math.sign(finalRotation - startRotation);
 
-            if (elapsed >= spinDuration) {
+            if (elapsed >= duration) {
                 if (!isFinishedRef.current) {
                     isFinishedRef.current = true;
-                    rotationRef.current = finalRotation;
-                    updateVisuals(finalRotation, true);
+                    // Pegs only shift the wheel within a segment, so it rests on the same winner
+                    const restRotation = pegHesitation ? applyPegHesitation(finalRotation, segmentEnds, 0, direction, angles[0]) : finalRotation;
+                    rotationRef.current = restRotation;
+                    updateFlapper(restRotation, direction, currentTime);
+                    updateVisuals(restRotation, true);
                     
-                    // Winner Calc
-                    playWinSound(winSoundId);
-                    const winnerIndex = getWinnerIndex(finalRotation, items.length);
-                    const winner = items[winnerIndex];
-                    onSpinEnd(winner);
+                    // Winner Calc: the win sound takes over from the soundtrack
+                    soundtrackRef.current?.stop();
+                    soundtrackRef.current = null;
+                    if (celebrate) playWinSound(winSoundId);
+                    const winnerIndices = getWinnerIndices(finalRotation, segmentEnds, angles);
+                    onSpinEndRef.current(winnerIndices.map(index => items[index]), spin.record);
                 }
             } else {
-                // Modified Physics for "Hand Flick" feel
-                // t goes from 0 to 1 over spinDuration
-                const t = elapsed / spinDuration;
-                
-                // We warp time to make the acceleration phase faster and deceleration longer.
-                // t^0.5 makes the curve start faster but accelerate smoother than t^0.25
-                // It provides a "heavy" but fast flick feeling.
-                const tModified = Math.pow(t, 0.5);
-                const ease = easeCubicInOut(tModified);
+                // Modified Physics for "Hand Flick" feel (see easeSpin)
+                const baseRot = getRotationAt(spin.record, elapsed);
+                const speed = getSpeedAt(spin.record, elapsed);
+                const currentRot = pegHesitation
+                    ? applyPegHesitation(baseRot, segmentEnds, speed, direction, angles[0])
+                    : baseRot;
                 
-                const currentRot = initialRotation + (totalRotationToAdd * ease);
-                
-                // Tick Sound Check
-                const curIndex = getWinnerIndex(currentRot, items.length);
-                if (curIndex !== lastIndexRef.current) {
-                    playTickSound(tickSoundId);
-                    lastIndexRef.current = curIndex;
+                // Tick Sound Check: with pegs this is the moment a peg slips past the flapper
+                if (tickTracker.update(currentRot)) {
+                    playTickSound(tickSoundId, speed);
                 }
 
                 rotationRef.current = currentRot;
+                updateFlapper(currentRot, direction, currentTime);
                 updateVisuals(currentRot, true);
                 animationFrameRef.current = requestAnimationFrame(tick);
             }
         } else {
             // IDLE ANIMATION
-            // Rotate slowly
-            rotationRef.current = (rotationRef.current + 0.2) % 36000; // Keep it increasing but reset eventually
+            // Rotate slowly, unless someone is holding the wheel
+            if (!dragRef.current) {
+                rotationRef.current = (rotationRef.current + 0.2) % 36000; // Keep it increasing but reset eventually
+            }
+            updateFlapper(rotationRef.current, dragRef.current?.direction ?? 1, currentTime);
             updateVisuals(rotationRef.current, false);
             animationFrameRef.current = requestAnimationFrame(tick);
         }
@@ -155,30 +264,55 @@ const Wheel: React.FC<WheelProps> = ({
     return () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [isSpinning, items, spinDuration, onSpinEnd, tickSoundId, winSoundId]);
+  }, [isSpinning, spinRequest, items, segmentEnds, segmentColors, pegsActive, pegContactAngle, pointerAngles, spinDuration, tickSoundId, winSoundId, celebrate, soundtrack, theme]);
+
+  // The soundtrack outlives the animation loop's restarts, but not the wheel
+  useEffect(() => () => soundtrackRef.current?.stop(), []);
+
+  // Passing pegs push the flappers aside, once they slip past they spring back
+  const updateFlapper = (rotation: number, direction: number, time: number) => {
+    if (!pegsActive) return;
+    const flappers = pointerAngles.map((pointerAngle, i) => {
+      const flapper = flapperRef.current[i] ?? { angle: 0, velocity: 0, time };
+      const dt = Math.min(0.05, Math.max(0, (time - flapper.time) / 1000));
+      flapper.time = time;
+
+      flapper.velocity += (-FLAPPER_STIFFNESS * flapper.angle - FLAPPER_DAMPING * flapper.velocity) * dt;
+      flapper.angle += flapper.velocity * dt;
+
+      // Turning clockwise, pegs sweep past the pointer and push its tip the same way (and back the other way)
+      const pushed = -direction * getFlapperPush(rotation, segmentEnds, direction, pegContactAngle, pointerAngle) * FLAPPER_MAX_DEFLECTION;
+      if ((pushed < 0 && flapper.angle > pushed) || (pushed > 0 && flapper.angle < pushed)) {
+        flapper.angle = pushed;
+        flapper.velocity = 0;
+      }
+      return flapper;
+    });
+    flapperRef.current = flappers;
+    select('#wheel-svg').selectAll('.pointer-flapper')
+      .attr('transform', (_, i) => `rotate(${flappers[i]?.angle ?? 0}, ${FLAPPER_PIVOT}, 0)`);
+  };
 
 
   // Helper to update transforms and LED colors without full redraw
   const updateVisuals = (rotation: number, spinning: boolean) => {
-     // 1. Rotate Wheel Group
+     // 1. Rotate Wheel Group (or the canvas the segments are painted on)
      select('#wheel-group').attr('transform', `rotate(${rotation})`);
+     if (useCanvas && canvasRef.current) {
+       canvasRef.current.style.transform = `translate(-50%, -50%) rotate(${rotation}deg)`;
+     }
 
      // 2. LED Effect
      const now = Date.now();
      let color;
      if (spinning) {
-         // Strobe effect (Vivid Neon Colors)
-         const colors = [
-           "#FF00FF", // Magenta
-           "#00FFFF", // Cyan
-           "#FFFF00", // Yellow
-           "#FF3300", // Neon Red
-           "#39FF14", // Neon Green
-           "#FFFFFF"  // White
-         ];
+         // Strobe effect through the theme's colors
+         const colors = theme.led;
          // Change color every 80ms based on time
          const idx = Math.floor(now / 80) % colors.length;
          color = colors[idx];
+     } else if (theme.ledIdle) {
+         color = theme.ledIdle;
      } else {
          // Smooth Rainbow (Brighter)
          const hue = (now / 40) % 360; 
@@ -189,12 +323,18 @@ const Wheel: React.FC<WheelProps> = ({
      select('#led-inner').attr('fill', color).attr('opacity', spinning ? 0.9 : 0.5);
 
      // 3. Dynamic Pointer Color
-     // Determine which segment is under the pointer
-     const currentIndex = getWinnerIndex(rotation, items.length);
-     // Get its color
-     const segmentColor = getSegmentColor(currentIndex, items.length);
-     // Apply to the pointer fill
-     select('#pointer-dynamic-fill').attr('fill', segmentColor);
+     // Each pointer takes the color of the segment under it
+     select('#wheel-svg').selectAll<SVGPathElement, number>('.pointer-dynamic-fill').attr('fill', pointerAngle => {
+       if (theme.pointer) return theme.pointer;
+       const currentIndex = getWinnerIndex(rotation, pointerAngle);
+       return segmentColors[currentIndex];
+     });
+
+     // 4. Name under each pointer, on canvas wheels most labels are too small to read
+     select('#wheel-svg').selectAll<SVGTextElement, number>('.pointer-readout').each(function (pointerAngle) {
+       const label = items[getWinnerIndex(rotation, pointerAngle)]?.label ?? '';
+       if (this.textContent !== label) this.textContent = label;
+     });
   };
 
   const drawWheelStructure = () => {
@@ -203,9 +343,8 @@ const Wheel: React.FC<WheelProps> = ({
 
     const width = dimensions.width;
     const height = dimensions.height;
-    const margin = 40; // More margin for external pointer
-    const outerRadius = (Math.min(width, height) / 2) - margin;
-    const innerRadius = 45; // Center hole size
+    const outerRadius = (Math.min(width, height) / 2) - WHEEL_MARGIN;
+    const innerRadius = HUB_RADIUS;
 
     // Define Gradients, Filters, Styles
     const defs = svg.append("defs");
@@ -237,7 +376,7 @@ const Wheel: React.FC<WheelProps> = ({
     const radialGradient = defs.append("radialGradient")
         .attr("id", "gloss-gradient")
         .attr("cx", "50%").attr("cy", "50%").attr("r", "50%").attr("fx", "30%").attr("fy", "30%");
-    radialGradient.append("stop").attr("offset", "0%").attr("stop-color", "white").attr("stop-opacity", 0.5);
+    radialGradient.append("stop").attr("offset", "0%").attr("stop-color", "white").attr("stop-opacity", theme.gloss);
     radialGradient.append("stop").attr("offset", "100%").attr("stop-color", "white").attr("stop-opacity", 0);
 
     // Pointer Shadow
@@ -254,18 +393,36 @@ const Wheel: React.FC<WheelProps> = ({
     // --- Wheel Group (Rotates) ---
     const wheelGroup = mainGroup.append("g").attr("id", "wheel-group");
 
-    const pie = d3Pie<string>().sort(null).value(1);
-    const arc = d3Arc<PieArcDatum<string>>().outerRadius(outerRadius).innerRadius(innerRadius);
+    const pie = d3Pie<WheelEntry>().sort(null).value(getEntryWeight);
+    const arc = d3Arc<PieArcDatum<WheelEntry>>().outerRadius(outerRadius).innerRadius(innerRadius);
+
+    const pieData = pie(items);
+    // Entries were only removed (not added or swapped): grow the others from where they were
+    const previousLayout = layoutRef.current;
+    const isRemoval = pieData.length > 0 && pieData.length < previousLayout.size && pieData.every(d => previousLayout.has(d.data.id));
+    layoutRef.current = new Map(pieData.map(d => [d.data.id, { startAngle: d.startAngle, endAngle: d.endAngle }]));
+    const previousArc = (d: PieArcDatum<WheelEntry>) => ({ ...d, ...previousLayout.get(d.data.id) });
+    const interpolateAngles = (d: PieArcDatum<WheelEntry>) => {
+      return interpolate(previousLayout.get(d.data.id), { startAngle: d.startAngle, endAngle: d.endAngle });
+    };
 
+    const labelTransform = (d: PieArcDatum<WheelEntry>) => {
+      // Calculate angle
+      const midAngle = ((d.startAngle + d.endAngle) / 2) * (180 / Math.PI);
+      // Rotate and then translate to the outer edge minus padding, or to just inside the picture
+      return `rotate(${midAngle - 90}) translate(${labelEndOf(d)}, 0)`;
+    };
+
+    // Canvas wheels paint their segments elsewhere, so nothing is joined here
     const arcs = wheelGroup.selectAll(".arc")
-      .data(pie(items))
+      .data(useCanvas ? [] : pieData)
       .enter().append("g")
       .attr("class", "arc");
 
     // Segments
     arcs.append("path")
       .attr("d", arc)
-      .attr("fill", (d, i) => getSegmentColor(i, items.length))
+      .attr("fill", d => segmentColors[d.index])
       .attr("stroke", "rgba(0,0,0,0.1)")
       .attr("stroke-width", "1");
 
@@ -275,41 +432,177 @@ const Wheel: React.FC<WheelProps> = ({
       .attr("fill", "url(#gloss-gradient)")
       .style("pointer-events", "none");
 
-    // Text
-    arcs.append("text")
-      .attr("transform", function(d) {
-        // Calculate angle
-        const midAngle = ((d.startAngle + d.endAngle) / 2) * (180 / Math.PI);
-        // Rotate and then translate to the outer edge minus padding
-        return `rotate(${midAngle - 90}) translate(${outerRadius - 20}, 0)`; 
-      })
-      .attr("dy", ".35em")
-      .attr("text-anchor", "end") // Align text to end at the outer rim (reading inwards)
-      .text(d => {
-        // Truncate logic depending on font size
-        let maxLen = 14; 
-        if (items.length <= 12) maxLen = 14; // Large font, less chars
-        else if (items.length <= 24) maxLen = 16; // Medium font
-        else maxLen = 20; // Small font, more chars
-
-        return d.data.length > maxLen ? d.data.substring(0, maxLen - 1) + '..' : d.data;
-      })
-      .style("fill", "#fff")
+    // Text, sized and wrapped to the room each segment actually has. Pictures go nearest the rim
+    // when labels read inwards, and inside the last line when labels follow the rim.
+    const curvedOuter = outerRadius - (pegsActive ? PEG_INSET + PEG_RADIUS + 4 : 10); // Clear of the pegs
+    const hasPicture = (entry: WheelEntry) => Boolean(entry.image || entry.emoji);
+    const pictures = new Map<string, { size: number; radius: number }>(); // Side and center distance
+    const fits = new Map(pieData.map(d => {
+      const angle = d.endAngle - d.startAngle;
+      const labelSpace = { angle, outerRadius: outerRadius - 20, innerRadius: innerRadius + 10, curved: curvedLabels };
+      if (curvedLabels) {
+        const fit = fitLabel(d.data.label, { ...labelSpace, outerRadius: curvedOuter }, measureText);
+        if (hasPicture(d.data)) {
+          const pictureOuter = fit.lines.length > 0 ? getCurvedLineRadius(curvedOuter, fit.fontSize, fit.lines.length - 1) - fit.fontSize * 0.3 - 4 : curvedOuter;
+          const size = getPictureSize(angle, pictureOuter, labelSpace.innerRadius);
+          if (size > 0) pictures.set(d.data.id, { size, radius: pictureOuter - size / 2 });
+        }
+        return [d.data.id, fit];
+      }
+      const size = hasPicture(d.data) ? getPictureSize(angle, curvedOuter, labelSpace.innerRadius) : 0;
+      if (size > 0) pictures.set(d.data.id, { size, radius: curvedOuter - size / 2 });
+      return [d.data.id, fitLabel(d.data.label, size > 0 ? { ...labelSpace, outerRadius: curvedOuter - size - 6 } : labelSpace, measureText)];
+    }));
+    const fitOf = (d: PieArcDatum<WheelEntry>) => fits.get(d.data.id) ?? { fontSize: 0, lines: [] };
+    const labelEndOf = (d: PieArcDatum<WheelEntry>) => {
+      const picture = pictures.get(d.data.id);
+      return picture ? picture.radius - picture.size / 2 - 6 : outerRadius - 20;
+    };
+
+    const labels = arcs.append("text")
+      .attr("class", "label")
+      .style("fill", d => getTextColor(segmentColors[d.index]))
       .style("font-weight", "800")
-      .style("font-size", () => {
-        if (items.length <= 12) return "30px";
-        if (items.length <= 24) return "22px";
-        return "14px";
-      })
+      .style("font-size", d => `${fitOf(d).fontSize}px`)
       .style("font-family", "'Inter', sans-serif")
-      .style("text-shadow", "1px 1px 3px rgba(0,0,0,0.8)");
+      // The shadow only helps light text, on light segments dark text reads better without one
+      .style("text-shadow", d => getTextColor(segmentColors[d.index]) === LIGHT_TEXT ? "1px 1px 3px rgba(0,0,0,0.8)" : "none")
+      .style("pointer-events", "none");
+
+    if (curvedLabels) {
+      // Each line follows its own circle, the first one closest to the rim
+      const guideId = (d: PieArcDatum<WheelEntry>, line: number) => `label-guide-${d.index}-${line}`;
+      arcs.selectAll(".label-guide")
+        .data(d => fitOf(d).lines.map((_, line) => ({ segment: d, line })))
+        .enter().append("path")
+        .attr("class", "label-guide")
+        .attr("id", g => guideId(g.segment, g.line))
+        .attr("d", g => labelArcPath(g.segment, getCurvedLineRadius(curvedOuter, fitOf(g.segment).fontSize, g.line)))
+        .attr("fill", "none");
+      labels
+        .attr("text-anchor", "middle")
+        .selectAll("textPath")
+        .data(d => fitOf(d).lines.map((text, line) => ({ text, id: guideId(d, line) })))
+        .enter().append("textPath")
+        .attr("href", t => `#${t.id}`)
+        .attr("startOffset", "50%")
+        .text(t => t.text);
+    } else {
+      // Lines side by side, centered on the segment's middle
+      labels
+        .attr("transform", labelTransform)
+        .attr("text-anchor", "end") // Align text to end at the outer rim (reading inwards)
+        .selectAll("tspan")
+        .data(d => fitOf(d).lines.map((text, line, lines) => ({ text, dy: line === 0 ? 0.35 - ((lines.length - 1) * LINE_HEIGHT) / 2 : LINE_HEIGHT })))
+        .enter().append("tspan")
+        .attr("x", 0)
+        .attr("dy", l => `${l.dy}em`)
+        .text(l => l.text);
+    }
+
+    // Pictures, clipped to a circle and turned with their segment
+    const pictureTransform = (d: PieArcDatum<WheelEntry>) => {
+      const midAngle = ((d.startAngle + d.endAngle) / 2) * (180 / Math.PI);
+      return `rotate(${midAngle}) translate(0, ${-(pictures.get(d.data.id)?.radius ?? 0)})`;
+    };
+    const pictureGroups = arcs.filter(d => pictures.has(d.data.id))
+      .append("g")
+      .attr("class", "picture")
+      .attr("transform", pictureTransform)
+      .style("pointer-events", "none");
+    pictureGroups.each(function (d) {
+      const group = select(this);
+      const { size } = pictures.get(d.data.id)!;
+      if (d.data.image) {
+        const clipId = `picture-clip-${d.index}`;
+        defs.append("clipPath").attr("id", clipId).append("circle").attr("r", size / 2);
+        group.append("image")
+          .attr("href", d.data.image)
+          .attr("x", -size / 2).attr("y", -size / 2)
+          .attr("width", size).attr("height", size)
+          .attr("preserveAspectRatio", "xMidYMid slice")
+          .attr("clip-path", `url(#${clipId})`);
+        group.append("circle")
+          .attr("r", size / 2)
+          .attr("fill", "none")
+          .attr("stroke", "rgba(255,255,255,0.7)")
+          .attr("stroke-width", 2);
+      } else {
+        group.append("text")
+          .attr("text-anchor", "middle")
+          .attr("dominant-baseline", "central")
+          .style("font-size", `${size * 0.85}px`)
+          .text(d.data.emoji ?? '');
+      }
+    });
+
+    // Pegs, one on every segment boundary. Pegs, hinges and readouts take the UI's grays from the
+    // theme's CSS variables, so they turn dark on a light theme.
+    const pegTransform = (d: PieArcDatum<WheelEntry>) => {
+      return `rotate(${d.startAngle * (180 / Math.PI) - 90}) translate(${outerRadius - PEG_INSET}, 0)`;
+    };
+    if (pegsActive) {
+      arcs.append("circle")
+        .attr("class", "peg")
+        .attr("transform", pegTransform)
+        .attr("r", PEG_RADIUS)
+        .style("fill", "rgb(var(--slate-200))")
+        .style("stroke", "rgb(var(--slate-600))")
+        .attr("stroke-width", 1.5);
+    }
+
+    if (isRemoval) {
+      arcs.selectAll<SVGPathElement, PieArcDatum<WheelEntry>>("path:not(.label-guide)")
+        .attr("d", d => arc(previousArc(d)))
+        .transition().duration(RELAYOUT_MS).ease(easeCubicOut)
+        .attrTween("d", d => {
+          const between = interpolateAngles(d);
+          return t => arc({ ...d, ...between(t) });
+        });
+      if (curvedLabels) {
+        arcs.selectAll<SVGPathElement, { segment: PieArcDatum<WheelEntry>; line: number }>("path.label-guide")
+          .attr("d", g => labelArcPath(previousArc(g.segment), getCurvedLineRadius(curvedOuter, fitOf(g.segment).fontSize, g.line)))
+          .transition().duration(RELAYOUT_MS).ease(easeCubicOut)
+          .attrTween("d", g => {
+            const between = interpolateAngles(g.segment);
+            const radius = getCurvedLineRadius(curvedOuter, fitOf(g.segment).fontSize, g.line);
+            return t => labelArcPath(between(t), radius);
+          });
+      } else {
+        arcs.selectAll<SVGTextElement, PieArcDatum<WheelEntry>>("text.label")
+          .attr("transform", d => labelTransform(previousArc(d)))
+          .transition().duration(RELAYOUT_MS).ease(easeCubicOut)
+          .attrTween("transform", d => {
+            const between = interpolateAngles(d);
+            return t => labelTransform({ ...d, ...between(t) });
+          });
+      }
+      pictureGroups
+        .attr("transform", d => pictureTransform(previousArc(d)))
+        .transition().duration(RELAYOUT_MS).ease(easeCubicOut)
+        .attrTween("transform", d => {
+          const between = interpolateAngles(d);
+          return t => pictureTransform({ ...d, ...between(t) });
+        });
+      arcs.selectAll<SVGCircleElement, PieArcDatum<WheelEntry>>("circle.peg")
+        .attr("transform", d => pegTransform(previousArc(d)))
+        .transition().duration(RELAYOUT_MS).ease(easeCubicOut)
+        .attrTween("transform", d => {
+          const between = interpolateAngles(d);
+          return t => pegTransform({ ...d, ...between(t) });
+        });
+    }
+
+    if (useCanvas && canvasRef.current) {
+      drawWheelCanvas(canvasRef.current, items, segmentColors, outerRadius, innerRadius, theme.gloss);
+    }
 
     // --- Center Hub (LED) ---
     // Metal ring around hub
     mainGroup.append("circle")
          .attr("r", innerRadius + 4)
-         .attr("fill", "#334155")
-         .attr("stroke", "#1e293b")
+         .attr("fill", theme.hub)
+         .attr("stroke", theme.hubEdge)
          .attr("stroke-width", 4)
          .style("filter", "drop-shadow(0px 4px 4px rgba(0,0,0,0.4))");
 
@@ -320,48 +613,70 @@ const Wheel: React.FC<WheelProps> = ({
              if(!isSpinning) onSpinStart();
          });
 
-    // LED Background (Black screen)
+    // LED Background (Screen)
     centerGroup.append("circle")
          .attr("r", innerRadius)
-         .attr("fill", "#000");
+         .attr("fill", theme.screen);
+
+    if (hubImage) {
+      // Logo in place of the LED, there is no #led-inner for updateVisuals to light up
+      defs.append("clipPath").attr("id", "hub-clip").append("circle").attr("r", innerRadius);
+      centerGroup.append("image")
+         .attr("href", hubImage)
+         .attr("x", -innerRadius).attr("y", -innerRadius)
+         .attr("width", innerRadius * 2).attr("height", innerRadius * 2)
+         .attr("preserveAspectRatio", "xMidYMid slice")
+         .attr("clip-path", "url(#hub-clip)");
+    } else {
+      // LED Light (Dynamic Fill)
+      centerGroup.append("circle")
+           .attr("id", "led-inner")
+           .attr("r", innerRadius)
+           .attr("fill", "blue")
+           .attr("opacity", 0.3)
+           .style("mix-blend-mode", "screen");
+    }
 
-    // LED Light (Dynamic Fill)
-    centerGroup.append("circle")
-         .attr("id", "led-inner")
-         .attr("r", innerRadius)
-         .attr("fill", "blue")
-         .attr("opacity", 0.3)
-         .style("mix-blend-mode", "screen");
-    
-    // "SPIN" Text with Breathing Animation
-    centerGroup.append("text")
-        .attr("class", "breathing-text") // Apply the breathing animation class
-        .attr("text-anchor", "middle")
-        .attr("dy", "0.35em")
-        .text("SPIN")
-        .style("fill", "#FFF")
-        .style("font-weight", "900")
-        .style("font-size", "18px")
-        .style("font-family", "Inter, sans-serif")
-        .style("letter-spacing", "1px")
-        .style("user-select", "none")
-        .style("filter", "drop-shadow(0px 0px 5px rgba(255,255,255,0.8))");
-
-    // --- 3D Pointer (External) ---
-    // Moved outside the wheel radius
-    const pointerDist = outerRadius + 5; // Gap from edge
+    // Hub label with Breathing Animation, shrunk to fit when it's longer than "SPIN"
+    if (!hubImage) {
+      const hubFontSize = Math.min(18, (18 * (innerRadius * 2 - 20)) / Math.max(1, measureText(hubText, 18)));
+      centerGroup.append("text")
+          .attr("class", "breathing-text") // Apply the breathing animation class
+          .attr("text-anchor", "middle")
+          .attr("dy", "0.35em")
+          .text(hubText)
+          .style("fill", "#FFF")
+          .style("font-weight", "900")
+          .style("font-size", `${hubFontSize}px`)
+          .style("font-family", "Inter, sans-serif")
+          .style("letter-spacing", "1px")
+          .style("user-select", "none")
+          .style("filter", "drop-shadow(0px 0px 5px rgba(255,255,255,0.8))");
+    }
+
+    // --- 3D Pointers (External) ---
+    // Moved outside the wheel radius, or reaching in over the pegs as a hinged flapper
+    const pointerDist = pegsActive ? outerRadius - PEG_INSET : outerRadius + 5; // Gap from edge
     
+    // The shadow sits on an unrotated group so it falls the same way for every pointer
     const pointerG = svg.append("g")
-       .attr("transform", `translate(${width/2 + pointerDist}, ${height/2})`)
-       .style("filter", "url(#pointer-shadow)");
-
-    // Pointer shape: Triangle pointing Left.
+       .style("filter", "url(#pointer-shadow)")
+       .selectAll(".pointer")
+       .data(pointerAngles)
+       .enter().append("g")
+       .attr("class", "pointer")
+       .attr("transform", angle => `translate(${width/2}, ${height/2}) rotate(${angle - 90}) translate(${pointerDist}, 0)`)
+       .append("g")
+       .attr("class", "pointer-flapper")
+       .attr("transform", (_, i) => `rotate(${flapperRef.current[i]?.angle ?? 0}, ${FLAPPER_PIVOT}, 0)`);
+
+    // Pointer shape: Triangle pointing at the center.
     // Coords: (0,0) is the tip. 
     pointerG.append("path")
-       .attr("id", "pointer-dynamic-fill") // Added ID to target this specific path
+       .attr("class", "pointer-dynamic-fill") // Targeted by updateVisuals
        .attr("d", "M0,0 L35,-15 L35,15 Z") 
-       .attr("fill", "#f43f5e") // Initial color
-       .attr("stroke", "rgba(0,0,0,0.5)")
+       .attr("fill", theme.pointer ?? "#f43f5e") // Initial color
+       .attr("stroke", theme.pointerOutline)
        .attr("stroke-width", 1);
        
     // 3D Highlight on pointer
@@ -370,6 +685,119 @@ const Wheel: React.FC<WheelProps> = ({
        .attr("fill", "rgba(255,255,255,0.3)")
        .style("pointer-events", "none");
 
+    // Hinge the flapper swings on
+    if (pegsActive) {
+      pointerG.append("circle")
+         .attr("cx", FLAPPER_PIVOT)
+         .attr("r", 4)
+         .style("fill", "rgb(var(--slate-300))")
+         .attr("stroke", "rgba(0,0,0,0.5)")
+         .attr("stroke-width", 1);
+    }
+
+    // --- Current Name Readout (Canvas wheels) ---
+    // Halfway between hub and rim on the line of each pointer, filled in by updateVisuals
+    if (useCanvas) {
+      const readoutRadius = (outerRadius + innerRadius) / 2;
+      svg.append("g")
+         .style("pointer-events", "none")
+         .selectAll("text")
+         .data(pointerAngles)
+         .enter().append("text")
+         .attr("class", "pointer-readout")
+         .attr("x", angle => width / 2 + readoutRadius * Math.sin(angle * (Math.PI / 180)))
+         .attr("y", angle => height / 2 - readoutRadius * Math.cos(angle * (Math.PI / 180)))
+         .attr("text-anchor", "middle")
+         .attr("dy", "0.35em")
+         .style("fill", "rgb(var(--slate-50))")
+         .style("font-weight", "900")
+         .style("font-size", "20px")
+         .style("font-family", "'Inter', sans-serif")
+         .style("stroke", "rgb(var(--slate-900) / 0.85)")
+         .style("stroke-width", "6px")
+         .style("stroke-linejoin", "round")
+         .style("paint-order", "stroke")
+         .style("user-select", "none");
+    }
+  };
+
+  // --- Fling Gesture ---
+  // Grab a segment and drag to turn the wheel, release while moving to spin it
+
+  const getPointerPolar = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - (rect.left + rect.width / 2);
+    const y = e.clientY - (rect.top + rect.height / 2);
+    return { angle: Math.atan2(y, x) * (180 / Math.PI), distance: Math.hypot(x, y) };
+  };
+
+  // Labels on the wheel may be shortened or left out, hovering a segment shows it in full
+  const updateHover = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { angle, distance } = getPointerPolar(e);
+    const outerRadius = Math.min(dimensions.width, dimensions.height) / 2 - WHEEL_MARGIN;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (isSpinning || !rect || e.pointerType !== 'mouse' || distance <= HUB_RADIUS || distance > outerRadius) {
+      setHover(null);
+      return;
+    }
+    // As if a pointer sat under the mouse (screen angles here start at 3 o'clock, the wheel's at 12)
+    const index = getWinnerIndex(rotationRef.current, angle + 90);
+    setHover({ label: items[index].label, x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    setHover(null);
+    if (isSpinning || dragRef.current) return;
+    const { angle, distance } = getPointerPolar(e);
+    const outerRadius = Math.min(dimensions.width, dimensions.height) / 2 - WHEEL_MARGIN;
+    // The hub is a button, and outside the rim there is nothing to grab
+    if (distance <= HUB_RADIUS || distance > outerRadius) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const tickTracker = createTickTracker(segmentEnds, pointerAngles[0]);
+    tickTracker.update(rotationRef.current);
+    dragRef.current = {
+      pointerId: e.pointerId,
+      lastAngle: angle,
+      samples: [{ time: e.timeStamp, rotation: rotationRef.current }],
+      tickTracker,
+      direction: 1,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) updateHover(e);
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const { angle } = getPointerPolar(e);
+    // Shortest way round, so crossing the ±180° line doesn't jump a full turn
+    const delta = ((angle - drag.lastAngle + 540) % 360) - 180;
+    drag.lastAngle = angle;
+    if (delta !== 0) drag.direction = Math.sign(delta);
+    rotationRef.current += delta;
+    drag.samples.push({ time: e.timeStamp, rotation: rotationRef.current });
+    drag.samples = drag.samples.filter(sample => e.timeStamp - sample.time <= FLING_SAMPLE_MS);
+    if (drag.tickTracker.update(rotationRef.current)) {
+      const first = drag.samples[0];
+      const seconds = (e.timeStamp - first.time) / 1000;
+      playTickSound(tickSoundId, seconds > 0 ? (rotationRef.current - first.rotation) / seconds : 0);
+    }
+    updateVisuals(rotationRef.current, false);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    // Only movement just before letting go counts: holding still and releasing is not a fling
+    const recent = drag.samples.filter(sample => e.timeStamp - sample.time <= FLING_SAMPLE_MS);
+    if (recent.length < 2 || isSpinning) return;
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const seconds = (last.time - first.time) / 1000;
+    const velocity = seconds > 0 ? (last.rotation - first.rotation) / seconds : 0;
+    if (Math.abs(velocity) >= MIN_FLING_VELOCITY) {
+      onSpinStart(clampFlingVelocity(velocity));
+    }
   };
 
   if (items.length === 0) {
@@ -385,12 +813,32 @@ const Wheel: React.FC<WheelProps> = ({
       ref={containerRef} 
       className="relative w-full h-full flex items-center justify-center overflow-visible"
     >
+        {/* Segments of big wheels, rotated underneath the SVG hub and pointers */}
+        <canvas
+          ref={canvasRef}
+          className="absolute left-1/2 top-1/2 pointer-events-none"
+          style={{ display: useCanvas ? 'block' : 'none', transform: `translate(-50%, -50%) rotate(${rotationRef.current}deg)` }}
+        />
         <svg 
           id="wheel-svg" 
           width={dimensions.width} 
           height={dimensions.height}
-          style={{ overflow: 'visible' }}
+          style={{ overflow: 'visible', touchAction: 'none' }}
+          className={`relative ${isSpinning ? '' : 'cursor-grab active:cursor-grabbing'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { dragRef.current = null; }}
+          onPointerLeave={() => setHover(null)}
         />
+        {hover && !isSpinning && (
+          <div
+            className="absolute z-10 pointer-events-none -translate-x-1/2 -translate-y-full max-w-xs px-3 py-1.5 bg-slate-900/90 border border-slate-700 text-slate-100 text-sm font-medium text-center break-words rounded-lg shadow-lg"
+            style={{ left: hover.x, top: hover.y - 12 }}
+          >
+            {hover.label}
+          </div>
+        )}
     </div>
   );
 };
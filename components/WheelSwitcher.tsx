@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Copy, Trash2, Check, X } from 'lucide-react';
+import { SavedWheel } from '../types';
+
+interface WheelSwitcherProps {
+  wheels: SavedWheel[];
+  activeWheelId: string;
+  disabled: boolean; // Switching is locked while a spin is running
+  onSelect: (wheelId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (wheelId: string, name: string) => void;
+  onDuplicate: (wheelId: string) => void;
+  onDelete: (wheelId: string) => void;
+}
+
+const iconButton = "p-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors border border-slate-600 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const WheelSwitcher: React.FC<WheelSwitcherProps> = ({
+  wheels,
+  activeWheelId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  // null = not editing, otherwise whether the name input creates a new wheel or renames the active one
+  const [editMode, setEditMode] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+
+  const activeWheel = wheels.find(w => w.id === activeWheelId);
+
+  const startEdit = (mode: 'create' | 'rename') => {
+    setEditMode(mode);
+    setName(mode === 'rename' && activeWheel ? activeWheel.name : '');
+  };
+
+  const submit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (editMode === 'create') onCreate(trimmed);
+    if (editMode === 'rename') onRename(activeWheelId, trimmed);
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeWheel) return;
+    if (window.confirm(`Delete "${activeWheel.name}" with all its entries and results?`)) {
+      onDelete(activeWheelId);
+    }
+  };
+
+  if (editMode) {
+    return (
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => { e.preventDefault(); submit(); }}
+      >
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Escape') setEditMode(null); }}
+          placeholder={editMode === 'create' ? 'New wheel name' : 'Wheel name'}
+          maxLength={60}
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+        <button type="submit" className={iconButton} title="Save" disabled={!name.trim()}>
+          <Check size={16} />
+        </button>
+        <button type="button" className={iconButton} title="Cancel" onClick={() => setEditMode(null)}>
+          <X size={16} />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={activeWheelId}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        className="flex-1 min-w-0 bg-slate-900 border border-slate-600 text-slate-200 rounded-lg px-2 py-2 text-sm font-semibold focus:ring-blue-500 focus:border-blue-500 outline-none disabled:opacity-60"
+        title="Switch wheel"
+      >
+        {wheels.map(wheel => (
+          <option key={wheel.id} value={wheel.id}>{wheel.name}</option>
+        ))}
+      </select>
+      <button className={iconButton} title="New wheel" onClick={() => startEdit('create')} disabled={disabled}>
+        <Plus size={16} />
+      </button>
+      <button className={iconButton} title="Rename wheel" onClick={() => startEdit('rename')}>
+        <Pencil size={16} />
+      </button>
+      <button className={iconButton} title="Duplicate wheel" onClick={() => onDuplicate(activeWheelId)} disabled={disabled}>
+        <Copy size={16} />
+      </button>
+      <button className={iconButton} title="Delete wheel" onClick={handleDelete} disabled={disabled || wheels.length <= 1}>
+        <Trash2 size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default WheelSwitcher;
@@ -1,15 +1,21 @@
 import React, { useEffect } from 'react';
-import { Trophy, UserMinus, RotateCw } from 'lucide-react';
+import { Trophy, UserMinus, RotateCw, History, CheckCircle2, XCircle } from 'lucide-react';
+import { WheelEntry, WinnerRecord } from '../types';
+import EntryPicture from './EntryPicture';
 
 interface WinnerModalProps {
-  winner: string | null;
+  winner: WheelEntry | null;
   onClose: () => void; // Keeps the winner
   onRemoveAndClose: () => void; // Removes the winner
+  replayOf?: WinnerRecord | null; // Set when the spin re-ran a past result
+  headline: string;
 }
 
-const WinnerModal: React.FC<WinnerModalProps> = ({ winner, onClose, onRemoveAndClose }) => {
+const WinnerModal: React.FC<WinnerModalProps> = ({ winner, onClose, onRemoveAndClose, replayOf, headline }) => {
   if (!winner) return null;
 
+  const replayMatches = replayOf ? replayOf.entry.id === winner.id : false;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s_ease-out]">
       <div className="bg-slate-800 border border-slate-600 rounded-3xl p-8 max-w-lg w-full text-center shadow-2xl transform transition-all scale-100 animate-[bounceIn_0.5s_cubic-bezier(0.175,0.885,0.32,1.275)] relative overflow-hidden">
@@ -20,20 +26,50 @@ const WinnerModal: React.FC<WinnerModalProps> = ({ winner, onClose, onRemoveAndC
         <div className="absolute -bottom-20 -left-20 w-40 h-40 bg-purple-500/20 rounded-full blur-3xl"></div>
 
         <div className="relative z-10">
-          <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-br from-yellow-300 to-orange-500 rounded-full mb-6 shadow-lg shadow-orange-500/30">
-             <Trophy size={40} className="text-white" />
-          </div>
+          {/* The winner's own picture when it has one, otherwise the trophy */}
+          <EntryPicture
+            entry={winner}
+            className="w-40 h-40 mb-6 rounded-3xl bg-slate-700/50 border border-slate-600 shadow-lg"
+            emojiClassName="text-8xl"
+            fallback={
+              <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-br from-yellow-300 to-orange-500 rounded-full mb-6 shadow-lg shadow-orange-500/30">
+                 <Trophy size={40} className="text-white" />
+              </div>
+            }
+          />
 
-          <h2 className="text-2xl font-bold text-slate-400 mb-2 uppercase tracking-widest">We have a winner!</h2>
+          <h2 className="text-2xl font-bold text-slate-400 mb-2 uppercase tracking-widest">{replayOf ? 'Replayed result' : headline}</h2>
           
-          <div className="text-5xl md:text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-white via-blue-100 to-slate-300 py-6 my-2 break-words drop-shadow-[0_2px_10px_rgba(255,255,255,0.2)]">
-            {winner}
+          <div className="text-5xl md:text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-slate-50 via-blue-100 to-slate-300 py-6 my-2 break-words drop-shadow-[0_2px_10px_rgba(255,255,255,0.2)]">
+            {winner.label}
           </div>
+
+          {winner.notes && (
+            <p className="text-slate-400 text-sm whitespace-pre-line -mt-2">{winner.notes}</p>
+          )}
           
+          {replayOf && (
+            <p className={`flex items-center justify-center gap-2 text-sm font-medium ${replayMatches ? 'text-green-400' : 'text-red-400'}`}>
+              {replayMatches ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+              {replayMatches
+                ? 'Matches the recorded winner'
+                : `Does not match the recorded winner (${replayOf.entry.label})`}
+            </p>
+          )}
+
+          {replayOf ? (
+            <button 
+              onClick={onClose}
+              className="w-full mt-8 flex items-center justify-center gap-2 py-4 px-6 bg-slate-700 hover:bg-slate-600 text-slate-50 font-bold rounded-xl transition-all hover:scale-105 border border-slate-600"
+            >
+              <History size={20} />
+              <span>Back to Current Wheel</span>
+            </button>
+          ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
             <button 
               onClick={onClose}
-              className="flex items-center justify-center gap-2 py-4 px-6 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded-xl transition-all hover:scale-105 border border-slate-600"
+              className="flex items-center justify-center gap-2 py-4 px-6 bg-slate-700 hover:bg-slate-600 text-slate-50 font-bold rounded-xl transition-all hover:scale-105 border border-slate-600"
             >
               <RotateCw size={20} />
               <span>Keep & Continue</span>
@@ -47,6 +83,7 @@ const WinnerModal: React.FC<WinnerModalProps> = ({ winner, onClose, onRemoveAndC
               <span>Remove & Continue</span>
             </button>
           </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,120 @@
+import { SoundtrackType, TickSound, WinSound } from './utils/audio';
+import { RngAlgorithm } from './utils/rng';
+import { DrawReceipt, FairCommitment } from './utils/fairness';
+import { TeamBoard, TeamConfig } from './utils/teams';
+import { PointerPosition } from './utils/spin';
+import { Theme } from './utils/themes';
+
+export interface WheelEntry {
+  id: string; // Stable identity, labels are allowed to repeat
+  label: string;
+  weight?: number; // Relative share of the wheel (e.g. number of tickets held), defaults to 1
+  color?: string; // Overrides the palette color for this segment
+  image?: string; // Data URL or remote URL
+  emoji?: string; // Shown instead of an image
+  notes?: string;
+}
+
+// One spin result, with enough context to audit the draw later
+export interface WinnerRecord {
+  id: string;
+  entry: WheelEntry; // Snapshot of the entry at the time it won
+  timestamp: number | null; // ms since epoch, null for results recorded before timestamps existed
+  wheelName: string;
+  entries: WheelEntry[]; // Full entry list on the wheel when it was spun, without pictures, see toRecordedEntries
+  settings: RecordedSettings; // Settings used for the spin
+  spin?: SpinRecord; // Missing for results recorded before spins were seeded
+  receipt?: DrawReceipt; // Only for commit–reveal (provably fair) draws
+  batch?: BatchInfo; // Set when the result came from a multi-winner run
+  elimination?: EliminationRound[]; // Last-one-standing games: every entry knocked out, first out first
+}
+
+export interface EliminationRound {
+  entry: WheelEntry; // Entry the wheel landed on, which left the game
+  spin: SpinRecord;
+}
+
+// Position of a result within a multi-winner run
+export interface BatchInfo {
+  id: string; // Shared by every result of the run
+  draw: number; // 1-based order within the run
+  size: number; // Winners drawn in the run
+  pointers?: boolean; // Drawn together by several pointers in a single spin
+}
+
+// Everything needed to re-run a spin frame-for-frame
+export interface SpinRecord {
+  seed: string;
+  rng: RngAlgorithm;
+  startRotation: number; // degrees
+  finalRotation: number; // degrees
+  duration: number; // in seconds
+  velocity?: number; // deg/s, set for flung spins: the physics decide where they land, not the seed
+}
+
+// Asks the wheel to spin with a given seed, optionally from a fixed rotation (replays)
+export interface SpinRequest {
+  seed: string;
+  rng: RngAlgorithm;
+  startRotation?: number;
+  velocity?: number; // Flung by hand, see planFling
+}
+
+export interface WheelSettings {
+  duration: number; // in seconds
+  tickSound: TickSound;
+  winSound: WinSound;
+  soundtrack: SoundtrackType; // Music building up under the spin, 'none' for just the ticks
+  seed: string; // Fixed seed for reproducible draws, empty = random seed per spin
+  winnersPerRun: number; // Winners drawn by one press of Spin, 1 = a single spin
+  removeWinners: boolean; // Take each winner off the wheel before the next spin of a run
+  followUpDuration: number; // in seconds, for the automatic spins after the first one of a run
+  elimination: boolean; // Each spin knocks out the entry it lands on, the last one left wins
+  pegs: boolean; // Pegs on the rim that catch the pointer's flapper
+  pointerPosition: PointerPosition; // Where the first pointer sits
+  pointerCount: number; // Evenly spaced pointers, each picks a winner on plain spins
+  curvedLabels: boolean; // Write labels along the rim instead of along the radius
+  palette: string[]; // Segment colors (#rrggbb) in order, entries may override their own
+  theme: Theme; // Look of the whole app while this wheel is open
+  branding: Branding;
+}
+
+// What a result keeps of the settings: everything that decides or shows the spin, but not the
+// look of the app, which replays take from the wheel as it is now
+export type RecordedSettings = Omit<WheelSettings, 'theme' | 'branding'>;
+
+// A sound file the user uploaded, usable as spin or winner sound on any wheel
+export interface CustomSound {
+  id: string;
+  name: string;
+  data: string; // Data URL of the file
+}
+
+// Kept for the device rather than per wheel: the same room wants the same volume on every wheel
+export interface AudioPreferences {
+  volume: number; // 0-1
+  muted: boolean;
+  sounds: CustomSound[];
+}
+
+// Own names and logos for events. Empty texts fall back to the app's, see getBrandText.
+export interface Branding {
+  title: string; // Header and intro screen
+  hubText: string; // On the center button
+  hubImage: string; // Logo in place of the LED hub (data URL or URL), '' for none
+  winnerHeadline: string; // Above the winner's name
+  introText: string; // Under the title on the intro screen
+  introImage: string; // Logo in place of the intro wheel, '' for none
+}
+
+// A named wheel with its own entries, results history and settings
+export interface SavedWheel {
+  id: string;
+  name: string;
+  entries: WheelEntry[];
+  winners: WinnerRecord[];
+  settings: WheelSettings;
+  fairCommitment?: FairCommitment | null; // Published commitment waiting for its spin
+  teamConfig?: TeamConfig;
+  teamBoard?: TeamBoard | null; // Last teams dealt from this wheel
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getTickVoice } from './audio';
+
+describe('getTickVoice', () => {
+  it('gets higher and louder with speed', () => {
+    const slow = getTickVoice(60);
+    const medium = getTickVoice(400);
+    const fast = getTickVoice(900);
+    expect(medium.pitch).toBeGreaterThan(slow.pitch);
+    expect(fast.pitch).toBeGreaterThan(medium.pitch);
+    expect(medium.level).toBeGreaterThan(slow.level);
+    expect(fast.level).toBeGreaterThan(medium.level);
+  });
+
+  it('stays audible at rest and never goes past full volume', () => {
+    expect(getTickVoice(0).level).toBeGreaterThan(0);
+    expect(getTickVoice(100000)).toEqual(getTickVoice(1080));
+    expect(getTickVoice(100000).level).toBe(1);
+  });
+
+  it('ignores the direction of the spin', () => {
+    expect(getTickVoice(-500)).toEqual(getTickVoice(500));
+  });
+});
@@ -1,4 +1,7 @@
 // Simple synthesizer using Web Audio API to avoid external asset dependencies
+import { CustomSound } from '../types';
+import { createId } from './entries';
+
 let audioCtx: AudioContext | null = null;
 
 const getAudioContext = () => {
@@ -8,6 +11,118 @@ const getAudioContext = () => {
   return audioCtx;
 };
 
+// --- MASTER BUS ---
+// Every sound goes through one gain node, so volume and mute apply to all of them at once.
+// A limiter after it catches the peaks when ticks, soundtrack and win sound play together.
+
+let masterGain: GainNode | null = null;
+let masterLevel = 1;
+
+const getOutput = () => {
+  const ctx = getAudioContext();
+  if (!masterGain) {
+    masterGain = ctx.createGain();
+    masterGain.gain.value = masterLevel;
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -6;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+    masterGain.connect(limiter);
+    limiter.connect(ctx.destination);
+  }
+  return masterGain;
+};
+
+// `volume` from 0 to 1
+export const setMasterVolume = (volume: number, muted: boolean) => {
+  masterLevel = muted ? 0 : volume;
+  if (masterGain && audioCtx) {
+    // A short glide instead of a jump, which would click
+    masterGain.gain.setTargetAtTime(masterLevel, audioCtx.currentTime, 0.02);
+  }
+};
+
+// --- UPLOADED SOUNDS ---
+// Referenced from settings as `custom:<id>`, decoded once and kept ready so ticks play without delay
+
+export type CustomSoundId = `custom:${string}`;
+
+export const MAX_SOUND_BYTES = 500 * 1024; // Kept in memory decoded and as a data URL, so short clips only
+export const MAX_SOUND_SECONDS = 15;
+export const MAX_TICK_SECONDS = 1; // Ticks come up to MAX_TICKS_PER_SECOND times a second
+
+export const getCustomSoundId = (sound: CustomSound): CustomSoundId => `custom:${sound.id}`;
+
+const isCustomSoundId = (value: string): value is CustomSoundId => value.startsWith('custom:');
+
+const decodedSounds = new Map<string, AudioBuffer>(); // By data URL, so renames don't decode again
+let customSounds: CustomSound[] = [];
+
+const decodeSound = async (data: string) => {
+  const cached = decodedSounds.get(data);
+  if (cached) return cached;
+  const bytes = await (await fetch(data)).arrayBuffer();
+  const buffer = await getAudioContext().decodeAudioData(bytes);
+  decodedSounds.set(data, buffer);
+  return buffer;
+};
+
+// Makes the user's uploads playable, and forgets the ones that were deleted
+export const setCustomSounds = (sounds: CustomSound[]) => {
+  customSounds = sounds;
+  const kept = new Set(sounds.map(s => s.data));
+  [...decodedSounds.keys()].forEach(data => {
+    if (!kept.has(data)) decodedSounds.delete(data);
+  });
+  sounds.forEach(sound => {
+    decodeSound(sound.data).catch(e => console.error(`Decoding sound "${sound.name}" failed`, e));
+  });
+};
+
+const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`${file.name} could not be read.`));
+  reader.readAsDataURL(file);
+});
+
+// Checks an uploaded file is a short sound the browser can play, and prepares it for storage.
+// Tick sounds pass MAX_TICK_SECONDS as `maxSeconds`.
+export const readSoundFile = async (file: File, maxSeconds = MAX_SOUND_SECONDS): Promise<CustomSound> => {
+  if (file.size > MAX_SOUND_BYTES) {
+    throw new Error(`${file.name} is too large, sounds can be up to ${Math.round(MAX_SOUND_BYTES / 1024)} KB.`);
+  }
+  const data = await readDataUrl(file);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeSound(data);
+  } catch {
+    throw new Error(`${file.name} is not a sound this browser can play.`);
+  }
+  if (buffer.duration > maxSeconds) {
+    decodedSounds.delete(data);
+    const limit = maxSeconds === 1 ? '1 second' : `${maxSeconds} seconds`;
+    throw new Error(`${file.name} is too long, ${maxSeconds < MAX_SOUND_SECONDS ? 'tick sounds' : 'sounds'} can be up to ${limit}.`);
+  }
+  return { id: createId(), name: file.name.replace(/\.[^.]+$/, ''), data };
+};
+
+// Plays an uploaded sound if it's ready, returns null when it isn't (deleted, or still decoding)
+const playCustomSound = (id: CustomSoundId, out: AudioNode = getOutput(), pitch = 1) => {
+  const sound = customSounds.find(s => getCustomSoundId(s) === id);
+  const buffer = sound && decodedSounds.get(sound.data);
+  if (!buffer) return null;
+  const ctx = getAudioContext();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = pitch;
+  source.connect(out);
+  source.start(ctx.currentTime);
+  return source;
+};
+
 // Initialize/Resume audio context on user interaction to prevent delay
 // We play a silent buffer to physically wake up the audio hardware immediately
 export const initAudio = () => {
@@ -29,87 +144,119 @@ export const initAudio = () => {
 };
 
 // --- TICK SOUNDS ---
+// Ticks follow the wheel: higher and louder the faster it turns, and never more than
+// MAX_TICKS_PER_SECOND, so a fast wheel with many entries doesn't pile up overlapping clicks
+
+export const MAX_TICKS_PER_SECOND = 25;
+const FAST_TICK_SPEED = 1080; // deg/s, from here on ticks play at their highest pitch and full volume
+
+// Pitch (playback rate) and volume of a tick with the wheel turning at `speed` deg/s
+export const getTickVoice = (speed: number) => {
+  const t = Math.min(1, Math.abs(speed) / FAST_TICK_SPEED);
+  return { pitch: 0.8 + 0.5 * t, level: 0.45 + 0.55 * Math.sqrt(t) };
+};
+
+let lastTickTime = -Infinity;
+let lastCustomTick: AudioBufferSourceNode | null = null; // Cut off by the next tick, so long uploads don't pile up
 
 export type TickSoundType = 'soft' | 'mechanical' | 'crisp' | 'pop' | 'game';
+export type TickSound = TickSoundType | CustomSoundId;
 
-const tickPresets: Record<TickSoundType, (ctx: AudioContext, now: number) => void> = {
-  soft: (ctx, now) => {
+const tickPresets: Record<TickSoundType, (ctx: AudioContext, now: number, out: AudioNode, pitch: number) => void> = {
+  soft: (ctx, now, out, pitch) => {
     // A very short, soft sine blip
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'sine';
-    osc.frequency.setValueAtTime(600, now);
-    osc.frequency.exponentialRampToValueAtTime(300, now + 0.05);
+    osc.frequency.setValueAtTime(600 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(300 * pitch, now + 0.05);
     gain.gain.setValueAtTime(0.2, now);
     gain.gain.exponentialRampToValueAtTime(0.01, now + 0.05);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.06);
   },
-  mechanical: (ctx, now) => {
+  mechanical: (ctx, now, out, pitch) => {
     // Filtered noise/triangle for a plastic click
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'triangle';
-    osc.frequency.setValueAtTime(200, now);
+    osc.frequency.setValueAtTime(200 * pitch, now);
     gain.gain.setValueAtTime(0.3, now);
     gain.gain.exponentialRampToValueAtTime(0.01, now + 0.03);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.04);
   },
-  crisp: (ctx, now) => {
+  crisp: (ctx, now, out, pitch) => {
     // High pitched short click
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'square';
-    osc.frequency.setValueAtTime(800, now);
+    osc.frequency.setValueAtTime(800 * pitch, now);
     gain.gain.setValueAtTime(0.05, now);
     gain.gain.exponentialRampToValueAtTime(0.01, now + 0.02);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.03);
   },
-  pop: (ctx, now) => {
+  pop: (ctx, now, out, pitch) => {
     // Water drop / mouth pop style
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'sine';
-    osc.frequency.setValueAtTime(800, now);
-    osc.frequency.exponentialRampToValueAtTime(100, now + 0.1);
+    osc.frequency.setValueAtTime(800 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(100 * pitch, now + 0.1);
     gain.gain.setValueAtTime(0.3, now);
     gain.gain.exponentialRampToValueAtTime(0.01, now + 0.1);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.11);
   },
-  game: (ctx, now) => {
+  game: (ctx, now, out, pitch) => {
     // Retro 8-bit blip
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'sawtooth';
-    osc.frequency.setValueAtTime(440, now);
-    osc.frequency.linearRampToValueAtTime(880, now + 0.05);
+    osc.frequency.setValueAtTime(440 * pitch, now);
+    osc.frequency.linearRampToValueAtTime(880 * pitch, now + 0.05);
     gain.gain.setValueAtTime(0.05, now);
     gain.gain.linearRampToValueAtTime(0, now + 0.05);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.06);
   }
 };
 
-export const playTickSound = (type: TickSoundType = 'soft') => {
+// `speed` in deg/s, leave it out for a plain tick (previews)
+export const playTickSound = (type: TickSound = 'soft', speed?: number) => {
   try {
     const ctx = getAudioContext();
     // Note: We don't call resume here to avoid blocking the main thread during high frequency ticks.
     // We rely on initAudio() being called at start.
-    const preset = tickPresets[type] || tickPresets['soft'];
-    preset(ctx, ctx.currentTime);
+    const now = ctx.currentTime;
+    if (now - lastTickTime < 1 / MAX_TICKS_PER_SECOND) return;
+    lastTickTime = now;
+
+    const { pitch, level } = speed === undefined ? { pitch: 1, level: 1 } : getTickVoice(speed);
+    const voice = ctx.createGain();
+    voice.gain.value = level;
+    voice.connect(getOutput());
+    if (isCustomSoundId(type)) {
+      const source = playCustomSound(type, voice, pitch);
+      if (source) {
+        lastCustomTick?.stop();
+        lastCustomTick = source;
+        return;
+      }
+    }
+    const preset = tickPresets[type as TickSoundType] || tickPresets['soft'];
+    preset(ctx, now, voice, pitch);
   } catch (e) {
     console.error("Audio play failed", e);
   }
@@ -120,6 +267,7 @@ export const playIntroSound = () => {
     try {
         const ctx = getAudioContext();
         const now = ctx.currentTime;
+        const out = getOutput();
         
         // 1. THE DING (Crystal clear chime)
         const osc = ctx.createOscillator();
@@ -135,7 +283,7 @@ export const playIntroSound = () => {
         harmGain.gain.setValueAtTime(0.05, now);
         harmGain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
         harm.connect(harmGain);
-        harmGain.connect(ctx.destination);
+        harmGain.connect(out);
         harm.start(now);
         harm.stop(now + 0.5);
 
@@ -145,7 +293,7 @@ export const playIntroSound = () => {
         gain.gain.exponentialRampToValueAtTime(0.001, now + 2.5); // Long clean tail
         
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(out);
         osc.start(now);
         osc.stop(now + 3);
 
@@ -171,7 +319,7 @@ export const playIntroSound = () => {
         
         noise.connect(noiseFilter);
         noiseFilter.connect(noiseGain);
-        noiseGain.connect(ctx.destination);
+        noiseGain.connect(out);
         noise.start(now);
 
     } catch(e) {
@@ -182,9 +330,10 @@ export const playIntroSound = () => {
 // --- WIN SOUNDS ---
 
 export type WinSoundType = 'fanfare' | 'success' | 'magic' | 'arcade' | 'piano';
+export type WinSound = WinSoundType | CustomSoundId;
 
-const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void> = {
-  fanfare: (ctx, now) => {
+const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number, out: AudioNode) => void> = {
+  fanfare: (ctx, now, out) => {
     // Major Arpeggio
     const notes = [523.25, 659.25, 783.99, 1046.50]; // C Major
     notes.forEach((freq, i) => {
@@ -197,12 +346,12 @@ const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void>
       gain.gain.linearRampToValueAtTime(0.15, start + 0.05);
       gain.gain.exponentialRampToValueAtTime(0.01, start + 0.6);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(out);
       osc.start(start);
       osc.stop(start + 0.7);
     });
   },
-  success: (ctx, now) => {
+  success: (ctx, now, out) => {
     // Simple ascending triad, cleaner
     const notes = [440, 554.37, 659.25]; // A Major
     notes.forEach((freq, i) => {
@@ -215,12 +364,12 @@ const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void>
       gain.gain.linearRampToValueAtTime(0.2, start + 0.05);
       gain.gain.exponentialRampToValueAtTime(0.01, start + 0.8);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(out);
       osc.start(start);
       osc.stop(start + 0.9);
     });
   },
-  magic: (ctx, now) => {
+  magic: (ctx, now, out) => {
     // Fast high pitched random sparkling
     for (let i = 0; i < 10; i++) {
         const osc = ctx.createOscillator();
@@ -232,12 +381,12 @@ const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void>
         gain.gain.linearRampToValueAtTime(0.1, start + 0.02);
         gain.gain.exponentialRampToValueAtTime(0.01, start + 0.2);
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(out);
         osc.start(start);
         osc.stop(start + 0.3);
     }
   },
-  arcade: (ctx, now) => {
+  arcade: (ctx, now, out) => {
     // Retro power up
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
@@ -252,11 +401,11 @@ const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void>
     gain.gain.linearRampToValueAtTime(0, now + 0.7);
     
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.start(now);
     osc.stop(now + 0.8);
   },
-  piano: (ctx, now) => {
+  piano: (ctx, now, out) => {
     // Soft chords simulation (FM synthesis simple)
     const notes = [261.63, 329.63, 392.00, 523.25]; // C Major Chord
     notes.forEach((freq, i) => {
@@ -280,21 +429,144 @@ const winPresets: Record<WinSoundType, (ctx: AudioContext, now: number) => void>
         gain.gain.exponentialRampToValueAtTime(0.001, now + 1.5);
         
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(out);
         osc.start(now);
         osc.stop(now + 1.6);
     });
   }
 };
 
-export const playWinSound = (type: WinSoundType = 'fanfare') => {
+export const playWinSound = (type: WinSound = 'fanfare') => {
   try {
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') ctx.resume();
     
-    const preset = winPresets[type] || winPresets['fanfare'];
-    preset(ctx, ctx.currentTime);
+    if (isCustomSoundId(type) && playCustomSound(type)) return;
+    const preset = winPresets[type as WinSoundType] || winPresets['fanfare'];
+    preset(ctx, ctx.currentTime, getOutput());
   } catch (e) {
     console.error("Win audio failed", e);
   }
-};
\ No newline at end of file
+};
+// --- SOUNDTRACK ---
+// Optional music under a spin. It builds up over the spin's duration and is cut off when the
+// win sound plays, which resolves it. It plays below the ticks so they still cut through.
+
+export type SoundtrackType = 'none' | 'drumroll' | 'riser';
+export const SOUNDTRACKS: SoundtrackType[] = ['none', 'drumroll', 'riser'];
+
+const SOUNDTRACK_LEVEL = 0.35;
+const SOUNDTRACK_RELEASE = 0.03; // Time constant of the fade when stopped, short enough to feel like a cut
+
+export interface Soundtrack {
+  stop: () => void;
+}
+
+let noiseBuffer: AudioBuffer | null = null;
+
+const getNoiseBuffer = (ctx: AudioContext) => {
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+  }
+  return noiseBuffer;
+};
+
+// Each builds from `now` to `end` into `out`, and returns its sources so they can be stopped early
+const soundtrackPresets: Record<Exclude<SoundtrackType, 'none'>, (ctx: AudioContext, now: number, end: number, out: AudioNode) => AudioScheduledSourceNode[]> = {
+  drumroll: (ctx, now, end, out) => {
+    // Snare-like noise, chopped into hits by a falling sawtooth that speeds up as the wheel slows
+    const noise = ctx.createBufferSource();
+    noise.buffer = getNoiseBuffer(ctx);
+    noise.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = 1800;
+    filter.Q.value = 0.8;
+
+    const hits = ctx.createGain();
+    hits.gain.value = 0.5;
+    const lfo = ctx.createOscillator();
+    lfo.type = 'sawtooth';
+    lfo.frequency.setValueAtTime(6, now);
+    lfo.frequency.exponentialRampToValueAtTime(22, end);
+    const lfoDepth = ctx.createGain();
+    lfoDepth.gain.value = -0.5; // Inverted: a sharp attack, then a decay
+    lfo.connect(lfoDepth);
+    lfoDepth.connect(hits.gain);
+
+    const swell = ctx.createGain();
+    swell.gain.setValueAtTime(0.2, now);
+    swell.gain.linearRampToValueAtTime(1, end);
+
+    noise.connect(filter);
+    filter.connect(hits);
+    hits.connect(swell);
+    swell.connect(out);
+    return [noise, lfo];
+  },
+  riser: (ctx, now, end, out) => {
+    // Two detuned saws climbing two octaves while the filter opens up
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.value = 4;
+    filter.frequency.setValueAtTime(300, now);
+    filter.frequency.exponentialRampToValueAtTime(4000, end);
+
+    const swell = ctx.createGain();
+    swell.gain.setValueAtTime(0.05, now);
+    swell.gain.exponentialRampToValueAtTime(0.5, end);
+
+    const oscs = [-7, 7].map(detune => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.detune.value = detune;
+      osc.frequency.setValueAtTime(110, now);
+      osc.frequency.exponentialRampToValueAtTime(440, end);
+      osc.connect(filter);
+      return osc;
+    });
+    filter.connect(swell);
+    swell.connect(out);
+    return oscs;
+  },
+};
+
+// Starts `type` for a spin of `duration` seconds, null for 'none'
+export const startSoundtrack = (type: SoundtrackType, duration: number): Soundtrack | null => {
+  const preset = type !== 'none' ? soundtrackPresets[type] : undefined;
+  if (!preset) return null;
+  try {
+    const ctx = getAudioContext();
+    const now = ctx.currentTime;
+    const end = now + Math.max(0.5, duration);
+
+    const bus = ctx.createGain();
+    bus.gain.setValueAtTime(0, now);
+    bus.gain.linearRampToValueAtTime(SOUNDTRACK_LEVEL, now + 0.3); // Fade in, so it doesn't start with a click
+    bus.connect(getOutput());
+    const sources = preset(ctx, now, end, bus);
+    sources.forEach(source => {
+      source.start(now);
+      source.stop(end + 0.2);
+    });
+
+    let stopped = false;
+    return {
+      stop: () => {
+        if (stopped) return;
+        stopped = true;
+        const at = ctx.currentTime;
+        bus.gain.cancelScheduledValues(at);
+        bus.gain.setTargetAtTime(0, at, SOUNDTRACK_RELEASE);
+        sources.forEach(source => source.stop(at + SOUNDTRACK_RELEASE * 6)); // A later stop() replaces the scheduled one
+      },
+    };
+  } catch (e) {
+    console.error("Soundtrack failed", e);
+    return null;
+  }
+};
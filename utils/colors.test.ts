@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DARK_TEXT, getSegmentColor, getSegmentColors, getTextColor, LIGHT_TEXT, normalizeColor, PALETTE, toHexColor } from './colors';
+import { WheelEntry } from '../types';
+
+const entries = (count: number, colors: Record<number, string> = {}): WheelEntry[] => {
+  return Array.from({ length: count }, (_, i) => ({ id: `e${i}`, label: `Entry ${i}`, color: colors[i] }));
+};
+
+const expectNoNeighborsAlike = (colors: string[]) => {
+  colors.forEach((color, i) => expect(color).not.toBe(colors[(i + 1) % colors.length]));
+};
+
+describe('getSegmentColors', () => {
+  it('goes through the palette in order', () => {
+    expect(getSegmentColors(entries(4))).toEqual(PALETTE.slice(0, 4));
+  });
+
+  it('keeps the last segment from matching the first', () => {
+    for (let count = 2; count <= 40; count++) {
+      expectNoNeighborsAlike(getSegmentColors(entries(count)));
+      expectNoNeighborsAlike(getSegmentColors(entries(count), ['#111111', '#222222', '#333333']));
+    }
+  });
+
+  it('keeps per-entry colors and steers the palette around them', () => {
+    const colors = getSegmentColors(entries(5, { 1: PALETTE[2], 4: PALETTE[0] }));
+    expect(colors[1]).toBe(PALETTE[2]);
+    expect(colors[4]).toBe(PALETTE[0]);
+    expectNoNeighborsAlike(colors);
+  });
+
+  it('matches getSegmentColor', () => {
+    const colors = getSegmentColors(entries(12));
+    colors.forEach((color, i) => expect(getSegmentColor(i, 12)).toBe(color));
+  });
+});
+
+describe('getTextColor', () => {
+  it('picks the label color that stands out', () => {
+    expect(getTextColor('#000000')).toBe(LIGHT_TEXT);
+    expect(getTextColor('#3369e8')).toBe(LIGHT_TEXT);
+    expect(getTextColor('#fdfd96')).toBe(DARK_TEXT);
+    expect(getTextColor('rgb(255, 255, 255)')).toBe(DARK_TEXT);
+  });
+
+  it('falls back to light text for colors it cannot read', () => {
+    expect(getTextColor('rebeccapurple')).toBe(LIGHT_TEXT);
+  });
+});
+
+describe('toHexColor', () => {
+  it('normalizes colors for color inputs', () => {
+    expect(toHexColor('#abc')).toBe('#aabbcc');
+    expect(toHexColor('rgb(255, 0, 16)')).toBe('#ff0010');
+    expect(toHexColor('teal', '#123456')).toBe('#123456');
+  });
+});
+
+describe('normalizeColor', () => {
+  it('turns hex colors into #rrggbb', () => {
+    expect(normalizeColor(' #ABC ')).toBe('#aabbcc');
+    expect(normalizeColor('#FDFD96')).toBe('#fdfd96');
+    expect(normalizeColor('#11223380')).toBe('#112233');
+  });
+
+  it('rejects what it cannot resolve, here everything but hex without a DOM', () => {
+    expect(normalizeColor('not a color')).toBeNull();
+    expect(normalizeColor('yellow')).toBeNull();
+  });
+});
@@ -1,18 +1,127 @@
+import { WheelEntry } from '../types';
+
 // A nice vibrant palette
-const PALETTE = [
-  "#3369E8", // Blue
-  "#D50F25", // Red
-  "#EEB211", // Yellow
+export const PALETTE = [
+  "#3369e8", // Blue
+  "#d50f25", // Red
+  "#eeb211", // Yellow
   "#009925", // Green
-  "#FF6D00", // Orange
-  "#A142F4", // Purple
-  "#00BCD4", // Cyan
-  "#EC407A", // Pink
-  "#8BC34A", // Light Green
+  "#ff6d00", // Orange
+  "#a142f4", // Purple
+  "#00bcd4", // Cyan
+  "#ec407a", // Pink
+  "#8bc34a", // Light Green
   "#795548", // Brown
-  "#607D8B", // Blue Grey
+  "#607d8b", // Blue Grey
+];
+
+export const MIN_PALETTE_COLORS = 2;
+export const MAX_PALETTE_COLORS = 16;
+
+export interface PalettePreset {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export const PALETTE_PRESETS: PalettePreset[] = [
+  { id: 'classic', name: 'Classic', colors: PALETTE },
+  { id: 'brand', name: 'Brand', colors: ["#2563eb", "#7c3aed", "#db2777", "#0891b2", "#f59e0b", "#4f46e5"] },
+  { id: 'pastel', name: 'Pastel', colors: ["#a7c7e7", "#f4a7b9", "#fdfd96", "#b5e7a0", "#ffcc99", "#cdb4db", "#a0e7e5", "#ffdac1"] },
+  { id: 'high-contrast', name: 'High Contrast', colors: ["#000000", "#ffeb3b", "#1e40ff", "#ffffff", "#d50000", "#00c853"] },
+  // Okabe–Ito, told apart with every common form of color blindness
+  { id: 'colorblind', name: 'Colorblind Safe', colors: ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#0072b2", "#d55e00", "#cc79a7", "#000000"] },
 ];
 
-export const getSegmentColor = (index: number, total: number) => {
-  return PALETTE[index % PALETTE.length];
-};
\ No newline at end of file
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+// Colors for a row of segments going round the wheel. `fixed` holds the per-entry overrides,
+// the rest go through the palette in order, skipping a color whenever it would end up next to
+// the same color, including the last segment meeting the first.
+const assignColors = (fixed: (string | undefined)[], palette: string[]) => {
+  const colors: string[] = [];
+  const total = fixed.length;
+  const same = (a: string | undefined, b: string | undefined) => a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase();
+  let cursor = 0;
+  fixed.forEach((color, i) => {
+    if (color) {
+      colors.push(color);
+      return;
+    }
+    const previous = i === 0 ? (total > 1 ? fixed[total - 1] : undefined) : colors[i - 1];
+    const next = i === total - 1 ? (total > 1 ? colors[0] : undefined) : fixed[i + 1];
+    // With one or two colors there may be no way around it, then the plain order wins
+    let offset = palette.findIndex((_, step) => {
+      const candidate = palette[(cursor + step) % palette.length];
+      return !same(candidate, previous) && !same(candidate, next);
+    });
+    if (offset === -1) offset = 0;
+    colors.push(palette[(cursor + offset) % palette.length]);
+    cursor += offset + 1;
+  });
+  return colors;
+};
+
+export const getSegmentColors = (entries: WheelEntry[], palette: string[] = PALETTE) => {
+  return assignColors(entries.map(e => e.color), palette);
+};
+
+export const getSegmentColor = (index: number, total: number, palette: string[] = PALETTE) => {
+  return assignColors(Array(total).fill(undefined), palette)[index];
+};
+
+// Red, green and blue (0-255) of a hex or rgb() color, null for anything else
+const parseColor = (color: string): [number, number, number] | null => {
+  const value = color.trim().toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(value);
+  if (short) return [parseInt(short[1] + short[1], 16), parseInt(short[2] + short[2], 16), parseInt(short[3] + short[3], 16)];
+  const long = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/.exec(value);
+  if (long) return [parseInt(long[1], 16), parseInt(long[2], 16), parseInt(long[3], 16)];
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/.exec(value);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  return null;
+};
+
+// `color` as #rrggbb for color inputs, which take nothing else
+export const toHexColor = (color: string, fallback = '#000000') => {
+  const rgb = parseColor(color);
+  if (!rgb) return fallback;
+  return '#' + rgb.map(c => Math.min(255, c).toString(16).padStart(2, '0')).join('');
+};
+
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+// Any CSS color (names like "yellow", hsl() and so on) as #rrggbb, null if it isn't one.
+// The browser resolves everything but hex, so without a DOM (the CLI) only hex colors work.
+export const normalizeColor = (value: string): string | null => {
+  const color = value.trim();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) return toHexColor(color);
+  if (typeof document === 'undefined' || typeof CSS === 'undefined' || !CSS.supports('color', color)) return null;
+  if (colorContext === undefined) colorContext = document.createElement('canvas').getContext('2d');
+  if (!colorContext) return null;
+  colorContext.fillStyle = '#000000';
+  colorContext.fillStyle = color; // Read back as #rrggbb, or rgba() when translucent
+  return parseColor(String(colorContext.fillStyle)) ? toHexColor(String(colorContext.fillStyle)) : null;
+};
+
+export const LIGHT_TEXT = '#ffffff';
+export const DARK_TEXT = '#0f172a';
+
+// WCAG relative luminance, 0 for black to 1 for white
+const getLuminance = ([r, g, b]: [number, number, number]) => {
+  const [lr, lg, lb] = [r, g, b].map(c => {
+    const s = Math.min(255, c) / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+// Light or dark label text, whichever stands out more against `background`
+export const getTextColor = (background: string) => {
+  const rgb = parseColor(background) ?? parseColor(normalizeColor(background) ?? '');
+  if (!rgb) return LIGHT_TEXT;
+  const luminance = getLuminance(rgb);
+  const againstLight = 1.05 / (luminance + 0.05);
+  const againstDark = (luminance + 0.05) / (getLuminance([15, 23, 42]) + 0.05); // DARK_TEXT
+  return againstDark > againstLight ? DARK_TEXT : LIGHT_TEXT;
+};
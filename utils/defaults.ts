@@ -0,0 +1,69 @@
+import { AudioPreferences, Branding, SavedWheel, WheelEntry, WheelSettings } from '../types';
+import { createEntry, createId } from './entries';
+import { PALETTE } from './colors';
+import { DEFAULT_THEME } from './themes';
+
+export const DEFAULT_ITEMS = [
+  "Ali", "Beatriz", "Charles", "Diya", "Eric", 
+  "Fatima", "Gabriel", "Hanna", "Ivan", "Julia"
+];
+
+export const DEFAULT_BRANDING: Branding = {
+  title: '',
+  hubText: '',
+  hubImage: '',
+  winnerHeadline: '',
+  introText: '',
+  introImage: '',
+};
+
+// What the app says where a wheel's branding leaves a text empty
+export const DEFAULT_BRAND_TEXTS = {
+  title: 'Lucky Wheel',
+  hubText: 'SPIN',
+  winnerHeadline: 'We have a winner!',
+  introText: 'Ready to spin?',
+};
+
+export const getBrandText = (branding: Branding, key: keyof typeof DEFAULT_BRAND_TEXTS) => {
+  return branding[key].trim() || DEFAULT_BRAND_TEXTS[key];
+};
+
+export const DEFAULT_SETTINGS: WheelSettings = {
+  duration: 20, // Default to 20 seconds for dramatic effect
+  tickSound: 'mechanical',
+  winSound: 'success',
+  soundtrack: 'none',
+  seed: '',
+  winnersPerRun: 1,
+  removeWinners: true,
+  followUpDuration: 5,
+  elimination: false,
+  pegs: false,
+  pointerPosition: 'right',
+  pointerCount: 1,
+  curvedLabels: false,
+  palette: PALETTE,
+  theme: DEFAULT_THEME,
+  branding: DEFAULT_BRANDING,
+};
+
+export const createDefaultEntries = (): WheelEntry[] => DEFAULT_ITEMS.map(label => createEntry(label));
+
+export const DEFAULT_WHEEL_NAME = 'My Wheel';
+
+export const createWheel = (name: string, entries: WheelEntry[] = []): SavedWheel => ({
+  id: createId(),
+  name,
+  entries,
+  winners: [],
+  settings: { ...DEFAULT_SETTINGS },
+});
+
+export const createDefaultWheel = () => createWheel(DEFAULT_WHEEL_NAME, createDefaultEntries());
+
+export const DEFAULT_AUDIO: AudioPreferences = {
+  volume: 1,
+  muted: false,
+  sounds: [],
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { drawWinners, getDrawSeed } from './draw';
+import { POINTER_POSITIONS, resolveSpin } from './spin';
+import { WheelEntry } from '../types';
+
+const entries: WheelEntry[] = ['Ada', 'Ben', 'Cleo', 'Dan', 'Eve'].map((label, i) => ({ id: `e${i}`, label, weight: i + 1 }));
+
+describe('drawWinners', () => {
+  it('picks what the wheel would land on for each draw seed', () => {
+    const results = drawWinners(entries, { seed: 'rota', count: 3, remove: false });
+    results.forEach((result, i) => {
+      expect(result.seed).toBe(getDrawSeed('rota', i + 1));
+      expect(result.entry).toBe(resolveSpin(entries, 123.4, result.seed).winner);
+    });
+  });
+
+  it('picks with the given pointer', () => {
+    const top = POINTER_POSITIONS.top;
+    const results = drawWinners(entries, { seed: 'rota', count: 3, remove: false, pointerAngle: top });
+    results.forEach(result => {
+      expect(result.entry).toBe(resolveSpin(entries, 0, result.seed, undefined, top).winner);
+    });
+    const right = drawWinners(entries, { seed: 'rota', count: 3, remove: false });
+    expect(results.map(r => r.entry.id)).not.toEqual(right.map(r => r.entry.id));
+  });
+
+  it('is reproducible', () => {
+    const a = drawWinners(entries, { seed: 'x', count: 4, remove: true });
+    const b = drawWinners(entries, { seed: 'x', count: 4, remove: true });
+    expect(a.map(r => r.entry.id)).toEqual(b.map(r => r.entry.id));
+  });
+
+  it('never repeats a winner when removing', () => {
+    const results = drawWinners(entries, { seed: 'all', count: entries.length, remove: true });
+    expect(new Set(results.map(r => r.entry.id)).size).toBe(entries.length);
+    expect(results.map(r => r.entriesLeft)).toEqual([5, 4, 3, 2, 1]);
+    results.forEach(result => expect(entries[result.index]).toBe(result.entry));
+  });
+
+  it('continues numbering from the first draw', () => {
+    const [result] = drawWinners(entries, { seed: 's', count: 1, remove: false, firstDraw: 7 });
+    expect(result.draw).toBe(7);
+    expect(result.seed).toBe('s/7');
+  });
+
+  it('rejects more removals than entries', () => {
+    expect(() => drawWinners(entries, { seed: 's', count: 6, remove: true })).toThrow();
+  });
+});
@@ -0,0 +1,53 @@
+import { WheelEntry } from '../types';
+import { POINTER_ANGLE, resolveSpin } from './spin';
+import { DEFAULT_RNG, RngAlgorithm } from './rng';
+
+// Several draws in a row without animating them, shared by the CLI and anything else that
+// needs results identical to spinning the wheel in the app.
+
+export interface DrawOptions {
+  seed: string;
+  count: number;
+  remove: boolean; // Take each winner off the wheel before the next draw
+  rng?: RngAlgorithm;
+  firstDraw?: number; // Number of the first draw, the app uses winners so far + 1
+  pointerAngle?: number; // The wheel's first pointer, see POINTER_POSITIONS
+}
+
+export interface DrawResult {
+  draw: number;
+  seed: string; // Seed of this draw
+  index: number; // Position in the original entry list
+  entry: WheelEntry;
+  entriesLeft: number; // Entries on the wheel when this draw was made
+  finalRotation: number;
+}
+
+// A fixed wheel seed gives each draw its own seed, so consecutive spins differ but stay reproducible
+export const getDrawSeed = (seed: string, draw: number) => `${seed}/${draw}`;
+
+export const drawWinners = (entries: WheelEntry[], options: DrawOptions): DrawResult[] => {
+  const { seed, count, remove, rng = DEFAULT_RNG, firstDraw = 1, pointerAngle = POINTER_ANGLE } = options;
+  if (remove && count > entries.length) {
+    throw new Error(`Cannot draw ${count} winners without repeats from ${entries.length} entries.`);
+  }
+
+  let remaining = entries;
+  const results: DrawResult[] = [];
+  for (let i = 0; i < count && remaining.length > 0; i++) {
+    const draw = firstDraw + i;
+    const drawSeed = getDrawSeed(seed, draw);
+    // The resting angle only depends on the seed, so the start rotation doesn't change the winner
+    const { finalRotation, winner } = resolveSpin(remaining, 0, drawSeed, rng, pointerAngle);
+    results.push({
+      draw,
+      seed: drawSeed,
+      index: entries.indexOf(winner),
+      entry: winner,
+      entriesLeft: remaining.length,
+      finalRotation,
+    });
+    if (remove) remaining = remaining.filter(entry => entry !== winner);
+  }
+  return results;
+};
@@ -0,0 +1,74 @@
+import { WheelEntry } from '../types';
+
+export const DEFAULT_WEIGHT = 1;
+
+export const createId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const createEntry = (label: string, extra: Partial<Omit<WheelEntry, 'id' | 'label'>> = {}): WheelEntry => {
+  return { id: createId(), label, ...extra };
+};
+
+export const getEntryWeight = (entry: WheelEntry) => entry.weight ?? DEFAULT_WEIGHT;
+
+// Weights must be positive finite numbers, anything else falls back to the default
+export const normalizeWeight = (weight: unknown) => {
+  const value = Number(weight);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_WEIGHT;
+};
+
+export const getTotalWeight = (entries: WheelEntry[]) => {
+  return entries.reduce((sum, entry) => sum + getEntryWeight(entry), 0);
+};
+
+// Winning chance of a single entry as a percentage (0-100)
+export const getOddsPercent = (entry: WheelEntry, totalWeight: number) => {
+  if (totalWeight <= 0) return 0;
+  return (getEntryWeight(entry) / totalWeight) * 100;
+};
+
+export const formatOdds = (percent: number) => {
+  if (percent === 0) return '0%';
+  if (percent < 0.1) return '<0.1%';
+  return `${percent.toFixed(percent < 10 ? 1 : 0)}%`;
+};
+
+// Text entered as an entry's picture: an image URL (or data URL), anything else is taken as emoji
+export const withPicture = (entry: WheelEntry, text: string): WheelEntry => {
+  const { image, emoji, ...rest } = entry;
+  const value = text.trim();
+  if (!value) return rest;
+  return /^(https?:\/\/|data:image\/)/i.test(value) ? { ...rest, image: value } : { ...rest, emoji: value };
+};
+
+// Rebuild the entry list from textarea lines while keeping the entries already there.
+// Lines are matched by position first, then by label, and an edited line renames the
+// entry in its place, so typing keeps everybody's id, weight and other details.
+export const entriesFromLines = (lines: string[], previous: WheelEntry[]): WheelEntry[] => {
+  const unused = new Set(previous);
+  const take = (entry: WheelEntry) => {
+    unused.delete(entry);
+    return entry;
+  };
+
+  const matched = lines.map((label, index) => {
+    const samePosition = previous[index];
+    if (samePosition && samePosition.label === label && unused.has(samePosition)) {
+      return take(samePosition);
+    }
+    return null;
+  });
+
+  return lines.map((label, index) => {
+    if (matched[index]) return matched[index];
+    const sameLabel = previous.find(entry => unused.has(entry) && entry.label === label);
+    if (sameLabel) return take(sameLabel);
+    const samePosition = previous[index];
+    if (samePosition && unused.has(samePosition)) return { ...take(samePosition), label };
+    return createEntry(label);
+  });
+};
@@ -0,0 +1,119 @@
+import { WinnerRecord } from '../types';
+import { TeamBoard } from './teams';
+import { formatOdds, getEntryWeight, getOddsPercent, getTotalWeight } from './entries';
+
+export const formatTimestamp = (timestamp: number | null) => {
+  if (timestamp === null) return 'Unknown time';
+  return new Date(timestamp).toLocaleString();
+};
+
+// Quote a CSV cell only when needed (RFC 4180)
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// History is stored newest first, exports read top to bottom in draw order
+const inDrawOrder = (records: WinnerRecord[]) => [...records].reverse();
+
+export const historyToCsv = (records: WinnerRecord[]) => {
+  const header = [
+    'draw', 'timestamp', 'wheel', 'winner', 'winner_id', 'winner_weight', 'winner_odds',
+    'entry_count', 'entries', 'duration_s', 'tick_sound', 'win_sound',
+    'seed', 'rng', 'start_rotation', 'final_rotation', 'fling_velocity', 'batch_id', 'batch_draw', 'eliminated', 'pointer'
+  ];
+  const rows = inDrawOrder(records).map((record, i) => {
+    const totalWeight = getTotalWeight(record.entries);
+    return [
+      i + 1,
+      record.timestamp === null ? '' : new Date(record.timestamp).toISOString(),
+      record.wheelName,
+      record.entry.label,
+      record.entry.id,
+      getEntryWeight(record.entry),
+      record.entries.length ? formatOdds(getOddsPercent(record.entry, totalWeight)) : '',
+      record.entries.length,
+      record.entries.map(e => e.label).join(' | '),
+      record.settings.duration,
+      record.settings.tickSound,
+      record.settings.winSound,
+      record.spin?.seed ?? '',
+      record.spin?.rng ?? '',
+      record.spin?.startRotation ?? '',
+      record.spin?.finalRotation ?? '',
+      record.spin?.velocity ?? '',
+      record.batch?.id ?? '',
+      record.batch ? `${record.batch.draw}/${record.batch.size}` : '',
+      record.elimination?.map(round => round.entry.label).join(' | ') ?? '',
+      record.settings.pointerPosition,
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const historyToJson = (records: WinnerRecord[]) => {
+  const draws = inDrawOrder(records).map((record, i) => ({
+    draw: i + 1,
+    timestamp: record.timestamp === null ? null : new Date(record.timestamp).toISOString(),
+    wheel: record.wheelName,
+    winner: record.entry,
+    entries: record.entries,
+    settings: record.settings,
+    spin: record.spin ?? null,
+    batch: record.batch ?? null,
+    elimination: record.elimination ?? null,
+  }));
+  return JSON.stringify({ exportedAt: new Date().toISOString(), draws }, null, 2);
+};
+
+// Human readable list for pasting into chat or email
+export const historyToText = (records: WinnerRecord[]) => {
+  return inDrawOrder(records)
+    .map((record, i) => `${i + 1}. ${record.entry.label}${record.elimination ? ' (last one standing)' : ''} (${formatTimestamp(record.timestamp)})`)
+    .join('\n');
+};
+
+export const teamsToCsv = (board: TeamBoard) => {
+  const rows = board.teams.flatMap(team => team.members.map((member, i) => [team.name, i + 1, member.label, member.id]));
+  return [['team', 'position', 'member', 'member_id'], ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const teamsToText = (board: TeamBoard) => {
+  return board.teams
+    .map(team => [`${team.name} (${team.members.length})`, ...team.members.map(m => `- ${m.label}`)].join('\n'))
+    .join('\n\n');
+};
+
+// Safe for use in a file name: "Lunch Spots" -> "lunch-spots"
+export const slugify = (name: string) => {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'wheel';
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const copyToClipboard = async (text: string) => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  // Fallback for non-secure contexts (e.g. opened from file:// or plain http)
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const ok = document.execCommand('copy');
+  textarea.remove();
+  if (!ok) throw new Error('Copy failed');
+};
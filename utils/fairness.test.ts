@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildReceipt, createCommitment, verifyReceipt } from './fairness';
+import { planFinalRotation, SPIN_TURNS } from './spin';
+import { DEFAULT_RNG } from './rng';
+import { WheelEntry } from '../types';
+
+const entries: WheelEntry[] = ['Ada', 'Ben', 'Cleo', 'Dan'].map((label, i) => ({ id: `e${i}`, label }));
+
+const drawReceipt = async (pointerAngle: number) => {
+  const commitment = await createCommitment(entries, DEFAULT_RNG, pointerAngle);
+  const startRotation = 12;
+  const finalRotation = planFinalRotation(startRotation, commitment.seed, commitment.rng);
+  const spin = { seed: commitment.seed, rng: commitment.rng, startRotation, finalRotation, duration: 10 };
+  return buildReceipt('Raffle', commitment, spin, commitment.committedAt + 1000);
+};
+
+describe('verifyReceipt', () => {
+  it('accepts an untouched receipt with the pointer anywhere', async () => {
+    for (const angle of [0, 90, 180, 270]) {
+      const result = await verifyReceipt(await drawReceipt(angle));
+      expect(result.ok).toBe(true);
+    }
+  });
+
+  it('rejects a receipt whose pointer was moved after committing', async () => {
+    const receipt = await drawReceipt(0);
+    // Wherever the pointer is moved, the committed text no longer matches
+    for (const angle of [90, 180, 270]) {
+      const result = await verifyReceipt({ ...receipt, pointerAngle: angle });
+      expect(result.ok).toBe(false);
+      expect(result.checks[1].ok).toBe(false);
+    }
+  });
+
+  it('only trusts v1 receipts with the pointer at 3 o\'clock', async () => {
+    const receipt = await drawReceipt(180);
+    const result = await verifyReceipt({ ...receipt, version: 1, spinTurns: SPIN_TURNS });
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import { SpinRecord, WheelEntry } from '../types';
+import { DEFAULT_WEIGHT, getEntryWeight } from './entries';
+import { getSegmentEnds, getWinnerIndex, planFinalRotation, POINTER_ANGLE, SPIN_TURNS } from './spin';
+import { isRngAlgorithm, RngAlgorithm } from './rng';
+
+// Commit–reveal draws: before spinning, publish SHA-256 commitments of the entry list and a
+// secret seed. The spin lands where the seed says (see planFinalRotation), and afterwards the
+// receipt reveals the seed so anyone can recompute the hashes and the winner offline.
+
+export const RECEIPT_TYPE = 'lucky-wheel-receipt';
+// v2 adds the pointer angle to the commitment, v1 receipts were only valid with the pointer at 3 o'clock
+export const RECEIPT_VERSION = 2;
+
+// Published before the spin. `seed` stays secret until the receipt is issued.
+export interface FairCommitment {
+  entries: WheelEntry[]; // Entry list the commitment covers, spinning with a different list is blocked
+  entriesHash: string;
+  commitment: string;
+  seed: string;
+  rng: RngAlgorithm;
+  pointerAngle: number; // Covered by the commitment, so the pointer can't be moved after publishing
+  committedAt: number; // ms since epoch
+}
+
+export interface ReceiptEntry {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+export interface DrawReceipt {
+  type: typeof RECEIPT_TYPE;
+  version: number;
+  wheelName: string;
+  committedAt: string; // ISO 8601
+  spunAt: string; // ISO 8601
+  entries: ReceiptEntry[];
+  entriesHash: string;
+  commitment: string;
+  seed: string;
+  rng: RngAlgorithm;
+  pointerAngle: number;
+  spinTurns: number;
+  startRotation: number;
+  finalRotation: number;
+  winner: { index: number; id: string; label: string };
+}
+
+export interface VerificationCheck {
+  label: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  checks: VerificationCheck[];
+  computedWinner: ReceiptEntry | null;
+}
+
+const toReceiptEntries = (entries: WheelEntry[]): ReceiptEntry[] => {
+  return entries.map(entry => ({ id: entry.id, label: entry.label, weight: getEntryWeight(entry) }));
+};
+
+// Stable text form of an entry list: order, ids, labels and weights all affect the outcome
+export const canonicalEntries = (entries: Array<WheelEntry | ReceiptEntry>) => {
+  return JSON.stringify(entries.map(entry => [entry.id, entry.label, entry.weight ?? DEFAULT_WEIGHT]));
+};
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const commitmentText = (entriesHash: string, rng: RngAlgorithm, seed: string, pointerAngle: number, version = RECEIPT_VERSION) => {
+  if (version < 2) return `${RECEIPT_TYPE}:v1:${entriesHash}:${rng}:${seed}`;
+  return `${RECEIPT_TYPE}:v${version}:${entriesHash}:${rng}:${pointerAngle}:${seed}`;
+};
+
+// 256 bits from the browser's CSPRNG, hex encoded
+export const generateSecretSeed = () => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createCommitment = async (entries: WheelEntry[], rng: RngAlgorithm, pointerAngle: number): Promise<FairCommitment> => {
+  const seed = generateSecretSeed();
+  const entriesHash = await sha256Hex(canonicalEntries(entries));
+  const commitment = await sha256Hex(commitmentText(entriesHash, rng, seed, pointerAngle));
+  return { entries, entriesHash, commitment, seed, rng, pointerAngle, committedAt: Date.now() };
+};
+
+export const commitmentMatchesEntries = (commitment: FairCommitment, entries: WheelEntry[]) => {
+  return canonicalEntries(commitment.entries) === canonicalEntries(entries);
+};
+
+export const buildReceipt = (wheelName: string, commitment: FairCommitment, spin: SpinRecord, spunAt: number): DrawReceipt => {
+  const { pointerAngle } = commitment;
+  const entries = toReceiptEntries(commitment.entries);
+  const index = getWinnerIndex(spin.finalRotation, getSegmentEnds(commitment.entries), pointerAngle);
+  return {
+    type: RECEIPT_TYPE,
+    version: RECEIPT_VERSION,
+    wheelName,
+    committedAt: new Date(commitment.committedAt).toISOString(),
+    spunAt: new Date(spunAt).toISOString(),
+    entries,
+    entriesHash: commitment.entriesHash,
+    commitment: commitment.commitment,
+    seed: spin.seed,
+    rng: spin.rng,
+    pointerAngle,
+    spinTurns: SPIN_TURNS,
+    startRotation: spin.startRotation,
+    finalRotation: spin.finalRotation,
+    winner: { index, id: entries[index].id, label: entries[index].label },
+  };
+};
+
+export const parseReceipt = (text: string): DrawReceipt => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a valid receipt file (JSON could not be parsed).');
+  }
+  if (!data || data.type !== RECEIPT_TYPE) {
+    throw new Error('This file is not a Lucky Wheel draw receipt.');
+  }
+  if (data.version > RECEIPT_VERSION) {
+    throw new Error('This receipt was made with a newer version of the app.');
+  }
+  const valid = Array.isArray(data.entries) && data.entries.length > 0
+    && data.entries.every((e: any) => e && typeof e.id === 'string' && typeof e.label === 'string' && typeof e.weight === 'number' && e.weight > 0)
+    && typeof data.seed === 'string' && typeof data.entriesHash === 'string' && typeof data.commitment === 'string'
+    && isRngAlgorithm(data.rng) && Number.isFinite(data.startRotation) && data.winner && typeof data.winner.id === 'string'
+    && (data.version < 2 || Number.isFinite(data.pointerAngle));
+  if (!valid) {
+    throw new Error('This receipt is incomplete or has been edited into an invalid shape.');
+  }
+  return data as DrawReceipt;
+};
+
+// Recomputes everything from the revealed seed and entry list, trusting nothing else in the receipt
+export const verifyReceipt = async (receipt: DrawReceipt): Promise<VerificationResult> => {
+  const checks: VerificationCheck[] = [];
+
+  const entriesHash = await sha256Hex(canonicalEntries(receipt.entries));
+  checks.push({
+    label: 'Entry list matches its published hash',
+    ok: entriesHash === receipt.entriesHash,
+    detail: entriesHash,
+  });
+
+  // Since v2 the pointer angle is part of the committed text, so a moved pointer fails this check
+  const commitment = await sha256Hex(commitmentText(receipt.entriesHash, receipt.rng, receipt.seed, receipt.pointerAngle, receipt.version));
+  checks.push({
+    label: receipt.version < 2 ? 'Revealed seed matches the commitment' : 'Revealed seed and pointer match the commitment',
+    ok: commitment === receipt.commitment,
+    detail: commitment,
+  });
+
+  // v1 commitments didn't cover the pointer, they only hold up with it where it was then: 3 o'clock
+  const pointerAngle = receipt.version < 2 ? POINTER_ANGLE : receipt.pointerAngle;
+  if (receipt.version < 2) {
+    checks.push({
+      label: 'Pointer is at 3 o\'clock, as v1 commitments assume',
+      ok: receipt.pointerAngle === undefined || receipt.pointerAngle === POINTER_ANGLE,
+      detail: `${receipt.pointerAngle ?? POINTER_ANGLE}°`,
+    });
+  }
+
+  const segmentEnds = getSegmentEnds(receipt.entries.map(e => ({ id: e.id, label: e.label, weight: e.weight })));
+  const finalRotation = planFinalRotation(receipt.startRotation, receipt.seed, receipt.rng);
+  const index = getWinnerIndex(finalRotation, segmentEnds, pointerAngle);
+  const computedWinner = receipt.entries[index] ?? null;
+  checks.push({
+    label: 'Seed lands on the recorded winner',
+    ok: computedWinner !== null && computedWinner.id === receipt.winner.id && index === receipt.winner.index,
+    detail: computedWinner ? `#${index + 1} ${computedWinner.label}` : 'No entry under the pointer',
+  });
+
+  const committedAt = Date.parse(receipt.committedAt);
+  const spunAt = Date.parse(receipt.spunAt);
+  checks.push({
+    label: 'Commitment was made before the spin',
+    ok: Number.isFinite(committedAt) && Number.isFinite(spunAt) && committedAt <= spunAt,
+    detail: `${receipt.committedAt} → ${receipt.spunAt}`,
+  });
+
+  return { ok: checks.every(c => c.ok), checks, computedWinner };
+};
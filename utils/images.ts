@@ -0,0 +1,30 @@
+// Uploaded pictures are scaled down before they are stored. They only ever show in a segment or
+// the winner dialog, and everything has to fit in localStorage next to the wheels.
+export const MAX_PICTURE_PX = 256;
+
+export const readImageFile = (file: File, maxSize = MAX_PICTURE_PX): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Images cannot be processed in this browser.'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      // Browsers without WebP encoding fall back to PNG
+      resolve(canvas.toDataURL('image/webp', 0.85));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not an image that can be shown.`));
+    };
+    img.src = url;
+  });
+};
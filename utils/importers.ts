@@ -0,0 +1,202 @@
+import { WheelEntry } from '../types';
+import { createEntry, normalizeWeight } from './entries';
+import { normalizeColor } from './colors';
+
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'text';
+
+// Every supported file is turned into a simple table so the preview can map columns the same way
+export interface ImportTable {
+  format: ImportFormat;
+  columns: string[]; // Header names, or generated "Column N" names when the file has none
+  rows: string[][];
+  hasHeaderRow: boolean; // Whether the first data row of a CSV/TSV is used as the header
+}
+
+export interface ColumnMapping {
+  label: number;
+  weight: number | null;
+  color: number | null;
+}
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+const LABEL_HEADERS = ['name', 'label', 'entry', 'title', 'participant', 'option', 'item'];
+const WEIGHT_HEADERS = ['weight', 'tickets', 'ticket', 'count', 'chances', 'entries', 'qty', 'quantity'];
+const COLOR_HEADERS = ['color', 'colour', 'hex'];
+
+export const detectFormat = (fileName: string, text: string): ImportFormat => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json') return 'json';
+  if (ext === 'tsv' || ext === 'tab') return 'tsv';
+  if (ext === 'csv') return 'csv';
+
+  // Unknown extension: sniff the content
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  const firstLine = trimmed.split(/\r?\n/)[0] ?? '';
+  if (firstLine.includes('\t')) return 'tsv';
+  return 'text';
+};
+
+// RFC 4180 style parser: quoted fields may contain delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const guessHeaderRow = (firstRow: string[]) => {
+  return firstRow.some(cell => {
+    const name = cell.trim().toLowerCase();
+    return LABEL_HEADERS.includes(name) || WEIGHT_HEADERS.includes(name) || COLOR_HEADERS.includes(name);
+  });
+};
+
+const genericColumns = (count: number) => Array.from({ length: count }, (_, i) => `Column ${i + 1}`);
+
+const stringifyCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const parseJson = (text: string): ImportTable => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  // Accept { "entries": [...] } style wrappers as well as bare arrays
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const firstArray = Object.values(data).find(Array.isArray);
+    if (firstArray) data = firstArray;
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('JSON files must contain an array of names or objects.');
+  }
+
+  if (data.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))) {
+    const columns: string[] = [];
+    data.forEach(item => Object.keys(item).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    }));
+    const rows = data.map(item => columns.map(key => stringifyCell(item[key])));
+    return { format: 'json', columns, rows, hasHeaderRow: false };
+  }
+
+  if (data.every(Array.isArray)) {
+    const width = Math.max(0, ...data.map(row => row.length));
+    const rows = data.map(row => Array.from({ length: width }, (_, i) => stringifyCell(row[i])));
+    return { format: 'json', columns: genericColumns(width), rows, hasHeaderRow: false };
+  }
+
+  return { format: 'json', columns: ['Name'], rows: data.map(item => [stringifyCell(item)]), hasHeaderRow: false };
+};
+
+export const parseImportFile = (fileName: string, text: string, forcedFormat?: ImportFormat): ImportTable => {
+  // Strip UTF-8 BOM that spreadsheet apps like to prepend
+  const clean = text.replace(/^\uFEFF/, '');
+  const format = forcedFormat ?? detectFormat(fileName, clean);
+
+  let table: ImportTable;
+  if (format === 'json') {
+    table = parseJson(clean);
+  } else if (format === 'text') {
+    const rows = clean.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => [line]);
+    table = { format, columns: ['Name'], rows, hasHeaderRow: false };
+  } else {
+    const rows = parseDelimited(clean, format === 'tsv' ? '\t' : ',');
+    const width = Math.max(0, ...rows.map(row => row.length));
+    const padded = rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+    table = { format, columns: genericColumns(width), rows: padded, hasHeaderRow: false };
+    if (padded.length > 1 && guessHeaderRow(padded[0])) {
+      table = setHeaderRow(table, true);
+    }
+  }
+
+  if (table.rows.length === 0) {
+    throw new Error('No entries found in this file.');
+  }
+  return table;
+};
+
+// Toggle whether the first CSV/TSV row holds column names
+export const setHeaderRow = (table: ImportTable, hasHeaderRow: boolean): ImportTable => {
+  if (table.hasHeaderRow === hasHeaderRow || table.format === 'json' || table.format === 'text') return table;
+  if (hasHeaderRow) {
+    const [header, ...rows] = table.rows;
+    const columns = header.map((cell, i) => cell.trim() || `Column ${i + 1}`);
+    return { ...table, columns, rows, hasHeaderRow };
+  }
+  return { ...table, columns: genericColumns(table.columns.length), rows: [table.columns, ...table.rows], hasHeaderRow };
+};
+
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const find = (names: string[]) => {
+    const index = columns.findIndex(c => names.includes(c.trim().toLowerCase()));
+    return index === -1 ? null : index;
+  };
+  return {
+    label: find(LABEL_HEADERS) ?? 0,
+    weight: find(WEIGHT_HEADERS),
+    color: find(COLOR_HEADERS),
+  };
+};
+
+export const buildEntries = (table: ImportTable, mapping: ColumnMapping): WheelEntry[] => {
+  return table.rows.flatMap(row => {
+    const label = (row[mapping.label] ?? '').trim();
+    if (!label) return [];
+
+    const entry = createEntry(label);
+    if (mapping.weight !== null) {
+      const weight = Number((row[mapping.weight] ?? '').trim());
+      if (Number.isFinite(weight) && weight > 0) entry.weight = normalizeWeight(weight);
+    }
+    if (mapping.color !== null) {
+      // Stored as hex, so label contrast and the color picker work for names like "yellow" too
+      const color = normalizeColor(row[mapping.color] ?? '');
+      if (color) entry.color = color;
+    }
+    return [entry];
+  });
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTextWidth, fitLabel, getCurvedLineRadius, getPictureSize, LabelSpace, MAX_LABEL_SIZE, MAX_PICTURE_SIZE, MIN_LABEL_SIZE } from './labels';
+
+const radial = (segments: number): LabelSpace => ({ angle: (2 * Math.PI) / segments, outerRadius: 230, innerRadius: 55, curved: false });
+const curved = (segments: number): LabelSpace => ({ ...radial(segments), curved: true });
+
+describe('fitLabel', () => {
+  it('gives short labels the biggest size on one line', () => {
+    expect(fitLabel('Ali', radial(10))).toEqual({ fontSize: MAX_LABEL_SIZE, lines: ['Ali'] });
+  });
+
+  it('wraps long labels onto two lines when that keeps them bigger', () => {
+    const label = 'Cafeteria Pasta Bar (Building 2)';
+    const { fontSize, lines } = fitLabel(label, radial(10));
+    expect(lines).toHaveLength(2);
+    expect(lines.join(' ')).toBe(label);
+    expect(fontSize).toBeGreaterThan(MIN_LABEL_SIZE);
+  });
+
+  it('shrinks labels as segments get narrower', () => {
+    const sizes = [10, 40, 80].map(segments => fitLabel('Gabriel', radial(segments)).fontSize);
+    expect(sizes[0]).toBeGreaterThan(sizes[1]);
+    expect(sizes[1]).toBeGreaterThan(sizes[2]);
+  });
+
+  it('truncates what does not fit even at the smallest size', () => {
+    const { fontSize, lines } = fitLabel('Supercalifragilisticexpialidocious-and-then-some', radial(60));
+    expect(fontSize).toBe(MIN_LABEL_SIZE);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].endsWith('..')).toBe(true);
+    expect(estimateTextWidth(lines[0], fontSize)).toBeLessThanOrEqual(230 - 55);
+  });
+
+  it('leaves out labels of segments too thin for any text', () => {
+    expect(fitLabel('Ali', radial(2000))).toEqual({ fontSize: 0, lines: [] });
+    expect(fitLabel('   ', radial(4))).toEqual({ fontSize: 0, lines: [] });
+  });
+
+  it('fits curved labels to the arc length', () => {
+    expect(fitLabel('Ali', curved(4)).fontSize).toBe(MAX_LABEL_SIZE);
+    const { fontSize, lines } = fitLabel('Cafeteria Pasta Bar (Building 2)', curved(12));
+    lines.forEach((line, i) => {
+      const room = ((2 * Math.PI) / 12) * getCurvedLineRadius(230, fontSize, i);
+      expect(estimateTextWidth(line, fontSize)).toBeLessThanOrEqual(room);
+    });
+  });
+});
+
+describe('getPictureSize', () => {
+  it('caps pictures in wide segments', () => {
+    expect(getPictureSize(Math.PI / 2, 220, 55)).toBe(MAX_PICTURE_SIZE);
+  });
+
+  it('keeps pictures within the segment width', () => {
+    const angle = (2 * Math.PI) / 24;
+    const size = getPictureSize(angle, 220, 55);
+    expect(size).toBeGreaterThan(0);
+    expect(size).toBeLessThanOrEqual(angle * (220 - size / 2));
+  });
+
+  it('leaves pictures out of thin segments and narrow rings', () => {
+    expect(getPictureSize((2 * Math.PI) / 100, 220, 55)).toBe(0);
+    expect(getPictureSize(Math.PI, 80, 55)).toBe(0);
+  });
+});
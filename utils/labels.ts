@@ -0,0 +1,107 @@
+// Fits segment labels to the room they actually get on the wheel: the biggest font size at which
+// the label fits on one line, or on two when there is room to wrap, truncated only as a last resort.
+
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+export interface LabelSpace {
+  angle: number; // Segment width in radians
+  outerRadius: number; // Rim side limit of the text
+  innerRadius: number; // Closest the text may get to the center
+  curved: boolean; // Written along the rim instead of along the radius
+}
+
+export interface FittedLabel {
+  fontSize: number; // px, 0 when the segment is too thin for any text
+  lines: string[];
+}
+
+export const MAX_LABEL_SIZE = 30;
+export const MIN_LABEL_SIZE = 8;
+export const LINE_HEIGHT = 1.15; // em
+const LABEL_FILL = 0.8; // Share of the segment's width the text may cover
+const LABEL_FONT = "800 {size}px 'Inter', sans-serif";
+export const MAX_PICTURE_SIZE = 56;
+const MIN_PICTURE_SIZE = 16; // Smaller pictures are unrecognizable and left out
+
+// Rough width of the label font, for when there is nothing to measure with (Node, tests)
+export const estimateTextWidth: TextMeasurer = (text, fontSize) => text.length * fontSize * 0.62;
+
+// Measures with a canvas in the label font, falling back to the estimate without one
+export const createTextMeasurer = (): TextMeasurer => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return estimateTextWidth;
+  return (text, fontSize) => {
+    ctx.font = LABEL_FONT.replace('{size}', String(fontSize));
+    return ctx.measureText(text).width;
+  };
+};
+
+// Baseline radius of line `line` of a curved label, the first line hugs the rim
+export const getCurvedLineRadius = (outerRadius: number, fontSize: number, line: number) => {
+  return outerRadius - fontSize * (0.8 + line * LINE_HEIGHT);
+};
+
+// Room for each of `count` lines at `fontSize`, or null when they can't be stacked in the segment
+const getLineWidths = (space: LabelSpace, fontSize: number, count: number) => {
+  const { angle, outerRadius, innerRadius } = space;
+  if (space.curved) {
+    const lastBaseline = getCurvedLineRadius(outerRadius, fontSize, count - 1);
+    if (lastBaseline - fontSize * 0.2 < innerRadius) return null;
+    return Array.from({ length: count }, (_, line) => angle * getCurvedLineRadius(outerRadius, fontSize, line) * LABEL_FILL);
+  }
+  // Radial lines sit side by side, towards the center the segment gets too narrow for them
+  const stackHeight = count * LINE_HEIGHT * fontSize;
+  const minRadius = Math.max(innerRadius, stackHeight / (angle * LABEL_FILL));
+  if (minRadius >= outerRadius) return null;
+  return Array(count).fill(outerRadius - minRadius);
+};
+
+// Splits at the space that makes the longer of the two lines shortest
+const splitInTwo = (label: string, fontSize: number, measure: TextMeasurer) => {
+  const words = label.split(/\s+/).filter(Boolean);
+  let best: string[] | null = null;
+  let bestWidth = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const lines = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+    const width = Math.max(...lines.map(line => measure(line, fontSize)));
+    if (width < bestWidth) {
+      best = lines;
+      bestWidth = width;
+    }
+  }
+  return best;
+};
+
+const fitsIn = (lines: string[], widths: number[], fontSize: number, measure: TextMeasurer) => {
+  return lines.every((line, i) => measure(line, fontSize) <= widths[i]);
+};
+
+export const fitLabel = (label: string, space: LabelSpace, measure: TextMeasurer = estimateTextWidth): FittedLabel => {
+  const text = label.trim();
+  if (!text) return { fontSize: 0, lines: [] };
+
+  for (let fontSize = MAX_LABEL_SIZE; fontSize >= MIN_LABEL_SIZE; fontSize--) {
+    const single = getLineWidths(space, fontSize, 1);
+    if (single && fitsIn([text], single, fontSize, measure)) return { fontSize, lines: [text] };
+    const double = getLineWidths(space, fontSize, 2);
+    const lines = double && splitInTwo(text, fontSize, measure);
+    if (double && lines && fitsIn(lines, double, fontSize, measure)) return { fontSize, lines };
+  }
+
+  // Too long even at the smallest size: cut it short, the full label shows on hover
+  const widths = getLineWidths(space, MIN_LABEL_SIZE, 1);
+  if (!widths) return { fontSize: 0, lines: [] };
+  for (let length = text.length - 1; length > 0; length--) {
+    const shortened = text.substring(0, length).trimEnd() + '..';
+    if (measure(shortened, MIN_LABEL_SIZE) <= widths[0]) return { fontSize: MIN_LABEL_SIZE, lines: [shortened] };
+  }
+  return { fontSize: 0, lines: [] };
+};
+
+// Side of the square a segment's picture gets when its rim side touches `outerRadius`, measured
+// at its middle so the corners stay inside the segment. 0 when it would be too small to make out.
+export const getPictureSize = (angle: number, outerRadius: number, innerRadius: number) => {
+  const across = (LABEL_FILL * angle * outerRadius) / (1 + (LABEL_FILL * angle) / 2);
+  const size = Math.floor(Math.min(MAX_PICTURE_SIZE, across, (outerRadius - innerRadius) * 0.45));
+  return size >= MIN_PICTURE_SIZE ? size : 0;
+};
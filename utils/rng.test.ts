@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { isRngAlgorithm } from './rng';
+
+describe('isRngAlgorithm', () => {
+  it('accepts the known generators', () => {
+    expect(isRngAlgorithm('mulberry32')).toBe(true);
+    expect(isRngAlgorithm('sfc32')).toBe(true);
+  });
+
+  it('rejects anything else, including inherited object keys', () => {
+    ['toString', 'constructor', '__proto__', 'hasOwnProperty', '', 'MULBERRY32'].forEach(name => {
+      expect(isRngAlgorithm(name)).toBe(false);
+    });
+    expect(isRngAlgorithm(undefined)).toBe(false);
+  });
+});
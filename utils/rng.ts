@@ -0,0 +1,73 @@
+// Seedable pseudo random number generators so every spin can be reproduced from its seed.
+// Add new algorithms to `rngAlgorithms`, results record which one was used.
+
+export type Rng = () => number; // Uniform float in [0, 1)
+
+export type RngAlgorithm = 'mulberry32' | 'sfc32';
+
+export const DEFAULT_RNG: RngAlgorithm = 'mulberry32';
+
+// xmur3 string hash, turns any seed text into a stream of 32-bit integers
+const hashSeed = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  return () => {
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^= h >>> 16) >>> 0;
+  };
+};
+
+const mulberry32 = (seed: string): Rng => {
+  let a = hashSeed(seed)();
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sfc32 = (seed: string): Rng => {
+  const next = hashSeed(seed);
+  let a = next(), b = next(), c = next(), d = next();
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+};
+
+export const rngAlgorithms: Record<RngAlgorithm, (seed: string) => Rng> = {
+  mulberry32,
+  sfc32,
+};
+
+export const isRngAlgorithm = (value: unknown): value is RngAlgorithm => {
+  // Own keys only, `in` would also accept inherited names like "toString"
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(rngAlgorithms, value);
+};
+
+export const createRng = (seed: string, algorithm: RngAlgorithm = DEFAULT_RNG): Rng => {
+  return (rngAlgorithms[algorithm] || rngAlgorithms[DEFAULT_RNG])(seed);
+};
+
+// Fresh unpredictable seed for spins without a fixed seed
+export const generateSeed = () => {
+  const bytes = new Uint8Array(8);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,145 @@
+import { SavedWheel, WheelEntry, WheelSettings } from '../types';
+import { createEntry } from './entries';
+import { normalizeColor } from './colors';
+import { sanitizeSettings } from './storage';
+
+// Links look like `#wheel=1.<payload>` (deflate-compressed) or `#wheel=0.<payload>` (plain),
+// where the payload is base64url encoded JSON. Everything stays in the hash so it never hits a server.
+const HASH_KEY = 'wheel';
+const SHARE_FORMAT_VERSION = 1;
+
+// Beyond this, chat apps and some browsers start truncating or refusing URLs
+export const LONG_URL_WARNING = 8000;
+
+// Compact wire format: an entry is just its label, or [label, weight, color] when it has extras
+type SharedEntry = string | [string, number?, string?];
+
+interface SharedPayload {
+  v: number;
+  n: string;
+  e: SharedEntry[];
+  s: [number, string, string];
+}
+
+export interface SharedWheelConfig {
+  name: string;
+  entries: WheelEntry[];
+  settings: WheelSettings;
+}
+
+const supportsCompression = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const toPayload = (wheel: Pick<SavedWheel, 'name' | 'entries' | 'settings'>): SharedPayload => ({
+  v: SHARE_FORMAT_VERSION,
+  n: wheel.name,
+  e: wheel.entries.map(entry => {
+    if (entry.weight === undefined && !entry.color) return entry.label;
+    return entry.color ? [entry.label, entry.weight ?? 1, entry.color] : [entry.label, entry.weight];
+  }),
+  s: [wheel.settings.duration, wheel.settings.tickSound, wheel.settings.winSound],
+});
+
+const fromPayload = (payload: any): SharedWheelConfig => {
+  if (!payload || typeof payload !== 'object' || !Array.isArray(payload.e)) {
+    throw new Error('This share link is missing its wheel data.');
+  }
+  if (payload.v > SHARE_FORMAT_VERSION) {
+    throw new Error('This share link was made with a newer version of the app.');
+  }
+
+  const entries = payload.e.flatMap((item: unknown) => {
+    const [label, weight, color] = Array.isArray(item) ? item : [item];
+    if (typeof label !== 'string' || !label.trim()) return [];
+    const entry = createEntry(label);
+    if (typeof weight === 'number' && Number.isFinite(weight) && weight > 0) entry.weight = weight;
+    const hex = typeof color === 'string' ? normalizeColor(color) : null;
+    if (hex) entry.color = hex;
+    return [entry];
+  });
+  const [duration, tickSound, winSound] = Array.isArray(payload.s) ? payload.s : [];
+
+  return {
+    name: typeof payload.n === 'string' && payload.n.trim() ? payload.n : 'Shared Wheel',
+    entries,
+    settings: sanitizeSettings({ duration, tickSound, winSound }),
+  };
+};
+
+export const encodeWheelConfig = async (wheel: Pick<SavedWheel, 'name' | 'entries' | 'settings'>) => {
+  const json = new TextEncoder().encode(JSON.stringify(toPayload(wheel)));
+  if (supportsCompression()) {
+    return `1.${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`;
+  }
+  return `0.${toBase64Url(json)}`;
+};
+
+export const decodeWheelConfig = async (encoded: string): Promise<SharedWheelConfig> => {
+  const [scheme, data] = [encoded.slice(0, encoded.indexOf('.')), encoded.slice(encoded.indexOf('.') + 1)];
+  if ((scheme !== '0' && scheme !== '1') || !data) {
+    throw new Error('This share link is not in a format the app recognizes.');
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(data);
+  } catch {
+    throw new Error('This share link is corrupted (it may have been cut off when copying).');
+  }
+
+  if (scheme === '1') {
+    if (!supportsCompression()) {
+      throw new Error('This browser cannot open compressed share links. Try a recent Chrome, Edge, Firefox or Safari.');
+    }
+    try {
+      bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+    } catch {
+      throw new Error('This share link is corrupted (it may have been cut off when copying).');
+    }
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is corrupted and could not be read.');
+  }
+  return fromPayload(payload);
+};
+
+export const buildShareUrl = async (wheel: Pick<SavedWheel, 'name' | 'entries' | 'settings'>) => {
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_KEY}=${await encodeWheelConfig(wheel)}`;
+  return url.toString();
+};
+
+// Returns the encoded config from a `#wheel=...` hash, or null when the hash is something else
+export const readShareHash = (hash: string) => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(HASH_KEY);
+};
+
+export const clearShareHash = () => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+};
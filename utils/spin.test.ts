@@ -0,0 +1,352 @@
+import { describe, expect, it } from 'vitest';
+import { easeCubicInOut as d3EaseCubicInOut } from 'd3';
+import {
+  applyPegHesitation,
+  clampFlingVelocity,
+  createTickTracker,
+  easeCubicInOut,
+  easeSpin,
+  getFlingDistance,
+  getFlingDuration,
+  getFlapperPush,
+  getPointerAngles,
+  getRotationAt,
+  getSegmentEnds,
+  getSegments,
+  getSpeedAt,
+  getWinnerIndex,
+  getWinnerIndices,
+  normalizeAngle,
+  MAX_FLING_VELOCITY,
+  planFinalRotation,
+  planFling,
+  POINTER_ANGLE,
+  resolveSpin,
+  SPIN_TURNS,
+} from './spin';
+import { WheelEntry } from '../types';
+
+const makeEntries = (count: number, weight?: (i: number) => number): WheelEntry[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `e${i}`, label: `Entry ${i}`, ...(weight ? { weight: weight(i) } : {}) }));
+
+// Rotation that puts wheel angle `angle` under the pointer
+const rotationFor = (angle: number) => POINTER_ANGLE - angle;
+
+describe('normalizeAngle', () => {
+  it('wraps into [0, 360)', () => {
+    expect(normalizeAngle(0)).toBe(0);
+    expect(normalizeAngle(360)).toBe(0);
+    expect(normalizeAngle(725)).toBe(5);
+    expect(normalizeAngle(-90)).toBe(270);
+    expect(normalizeAngle(-1e-15)).toBe(0);
+  });
+});
+
+describe('segments', () => {
+  it('splits uniform entries evenly', () => {
+    expect(getSegmentEnds(makeEntries(4))).toEqual([90, 180, 270, 360]);
+  });
+
+  it('sizes weighted entries proportionally', () => {
+    const entries = makeEntries(3, i => [1, 2, 1][i]);
+    expect(getSegments(entries)).toEqual([
+      { index: 0, startAngle: 0, endAngle: 90 },
+      { index: 1, startAngle: 90, endAngle: 270 },
+      { index: 2, startAngle: 270, endAngle: 360 },
+    ]);
+  });
+
+  it('gives a single entry the whole wheel', () => {
+    expect(getSegmentEnds(makeEntries(1))).toEqual([360]);
+  });
+
+  it('returns nothing for an empty wheel', () => {
+    expect(getSegmentEnds([])).toEqual([]);
+  });
+});
+
+describe('getWinnerIndex', () => {
+  it('returns -1 for an empty wheel', () => {
+    expect(getWinnerIndex(123, [])).toBe(-1);
+  });
+
+  it('always picks the only entry', () => {
+    const ends = getSegmentEnds(makeEntries(1));
+    for (const rotation of [0, 89.999, 90, 90.001, 359.999, -720, 1e6]) {
+      expect(getWinnerIndex(rotation, ends)).toBe(0);
+    }
+  });
+
+  it('finds the segment under the pointer at rest', () => {
+    // 0 rotation: wheel angle 90 is under the pointer, the start of the second of four segments
+    const ends = getSegmentEnds(makeEntries(4));
+    expect(getWinnerIndex(0, ends)).toBe(1);
+    expect(getWinnerIndex(rotationFor(45), ends)).toBe(0);
+    expect(getWinnerIndex(rotationFor(315), ends)).toBe(3);
+  });
+
+  it('assigns boundary angles to the segment starting there', () => {
+    const ends = getSegmentEnds(makeEntries(4));
+    expect(getWinnerIndex(rotationFor(0), ends)).toBe(0);
+    expect(getWinnerIndex(rotationFor(90), ends)).toBe(1);
+    expect(getWinnerIndex(rotationFor(180), ends)).toBe(2);
+    expect(getWinnerIndex(rotationFor(270), ends)).toBe(3);
+    expect(getWinnerIndex(rotationFor(360), ends)).toBe(0);
+    expect(getWinnerIndex(rotationFor(89.9999999), ends)).toBe(0);
+  });
+
+  it('ignores whole turns and negative rotations', () => {
+    const ends = getSegmentEnds(makeEntries(7));
+    for (const angle of [3, 100, 250, 359]) {
+      const index = getWinnerIndex(rotationFor(angle), ends);
+      expect(getWinnerIndex(rotationFor(angle) + 360 * 25, ends)).toBe(index);
+      expect(getWinnerIndex(rotationFor(angle) - 360 * 3, ends)).toBe(index);
+    }
+  });
+
+  it('respects weights', () => {
+    const ends = getSegmentEnds(makeEntries(3, i => [1, 2, 1][i]));
+    expect(getWinnerIndex(rotationFor(89), ends)).toBe(0);
+    expect(getWinnerIndex(rotationFor(91), ends)).toBe(1);
+    expect(getWinnerIndex(rotationFor(269), ends)).toBe(1);
+    expect(getWinnerIndex(rotationFor(271), ends)).toBe(2);
+  });
+
+  it('handles very large lists', () => {
+    const count = 100000;
+    const ends = getSegmentEnds(makeEntries(count));
+    const segment = 360 / count;
+    for (const index of [0, 1, 4999, 50000, count - 2, count - 1]) {
+      const middle = (index + 0.5) * segment;
+      expect(getWinnerIndex(rotationFor(middle), ends)).toBe(index);
+    }
+  });
+
+  it('matches the share of each entry over many rotations', () => {
+    const entries = makeEntries(3, i => [1, 2, 1][i]);
+    const ends = getSegmentEnds(entries);
+    const counts = [0, 0, 0];
+    for (let step = 0; step < 3600; step++) counts[getWinnerIndex(step / 10, ends)]++;
+    expect(counts).toEqual([900, 1800, 900]);
+  });
+});
+
+describe('pointers', () => {
+  const ends = getSegmentEnds(makeEntries(4));
+
+  it('spaces pointers evenly from the chosen position', () => {
+    expect(getPointerAngles('right', 1)).toEqual([POINTER_ANGLE]);
+    expect(getPointerAngles('top', 2)).toEqual([0, 180]);
+    expect(getPointerAngles('left', 4)).toEqual([270, 0, 90, 180]);
+  });
+
+  it('reads the segment under a moved pointer', () => {
+    expect(getWinnerIndex(0, ends, 0)).toBe(0);
+    expect(getWinnerIndex(0, ends, 270)).toBe(3);
+    expect(getWinnerIndex(90, ends, 0)).toBe(getWinnerIndex(0, ends, 270));
+  });
+
+  it('gives one winner per pointer, in pointer order', () => {
+    expect(getWinnerIndices(10, ends, getPointerAngles('right', 2))).toEqual([0, 2]);
+    expect(getWinnerIndices(10, ends, getPointerAngles('top', 4))).toEqual([3, 0, 1, 2]);
+  });
+
+  it('counts a segment under two pointers once', () => {
+    const weighted = getSegmentEnds([{ id: 'a', label: 'A', weight: 9 }, { id: 'b', label: 'B' }]);
+    expect(getWinnerIndices(0, weighted, getPointerAngles('top', 2))).toEqual([0]);
+  });
+});
+
+describe('rotation curve', () => {
+  it('matches d3.easeCubicInOut', () => {
+    for (let t = 0; t <= 1; t += 0.05) {
+      expect(easeCubicInOut(t)).toBeCloseTo(d3EaseCubicInOut(t), 12);
+    }
+  });
+
+  it('starts at 0, ends at 1 and never goes backwards', () => {
+    expect(easeSpin(0)).toBe(0);
+    expect(easeSpin(1)).toBe(1);
+    let previous = 0;
+    for (let t = 0; t <= 1; t += 0.01) {
+      const value = easeSpin(t);
+      expect(value).toBeGreaterThanOrEqual(previous);
+      previous = value;
+    }
+  });
+
+  it('clamps time outside the spin', () => {
+    expect(easeSpin(-1)).toBe(0);
+    expect(easeSpin(2)).toBe(1);
+  });
+
+  it('interpolates rotation over the spin duration', () => {
+    const spin = { startRotation: 30, finalRotation: 3630, duration: 10 };
+    expect(getRotationAt(spin, 0)).toBe(30);
+    expect(getRotationAt(spin, 10)).toBe(3630);
+    expect(getRotationAt(spin, 12)).toBe(3630);
+    expect(getRotationAt(spin, 5)).toBeCloseTo(30 + 3600 * easeSpin(0.5), 10);
+  });
+
+  it('jumps straight to the end for zero-length spins', () => {
+    expect(getRotationAt({ startRotation: 0, finalRotation: 720, duration: 0 }, 0)).toBe(720);
+  });
+});
+
+describe('seeded spins', () => {
+  it('always travels the full turns plus less than one more', () => {
+    for (const start of [0, 17.5, 359.9, 12345]) {
+      const final = planFinalRotation(start, 'seed');
+      expect(final - start).toBeGreaterThanOrEqual(SPIN_TURNS * 360);
+      expect(final - start).toBeLessThan((SPIN_TURNS + 1) * 360);
+    }
+  });
+
+  it('lands on the same angle for a seed regardless of where it started', () => {
+    const angles = [0, 42, 180.25, 9999].map(start => normalizeAngle(planFinalRotation(start, 'abc')));
+    angles.forEach(angle => expect(angle).toBeCloseTo(angles[0], 6));
+  });
+
+  it('picks the same winner for the same seed and entries', () => {
+    const entries = makeEntries(12, i => (i % 3) + 1);
+    const a = resolveSpin(entries, 0, 'draw-1');
+    const b = resolveSpin(entries, 271.3, 'draw-1');
+    expect(a.winner).toBe(b.winner);
+    expect(a.winner).toBe(entries[a.winnerIndex]);
+  });
+
+  it('depends on the generator', () => {
+    const ends = getSegmentEnds(makeEntries(1000));
+    const seeds = Array.from({ length: 20 }, (_, i) => `s${i}`);
+    const byMulberry = seeds.map(seed => getWinnerIndex(planFinalRotation(0, seed, 'mulberry32'), ends));
+    const bySfc = seeds.map(seed => getWinnerIndex(planFinalRotation(0, seed, 'sfc32'), ends));
+    expect(byMulberry).not.toEqual(bySfc);
+  });
+
+  it('returns no winner for an empty wheel', () => {
+    expect(resolveSpin([], 0, 'x').winner).toBeNull();
+  });
+});
+
+describe('flung spins', () => {
+  it('comes to rest after the friction has used up the speed', () => {
+    const spin = planFling(10, 1500);
+    expect(spin.duration).toBe(getFlingDuration(1500));
+    expect(spin.finalRotation).toBeCloseTo(10 + getFlingDistance(1500, Infinity), 9);
+    expect(getRotationAt(spin, spin.duration)).toBe(spin.finalRotation);
+    expect(getRotationAt(spin, spin.duration - 1e-6)).toBeCloseTo(spin.finalRotation, 3);
+  });
+
+  it('goes further and longer the harder it is flung', () => {
+    const soft = planFling(0, 400);
+    const hard = planFling(0, 3000);
+    expect(hard.duration).toBeGreaterThan(soft.duration);
+    expect(hard.finalRotation).toBeGreaterThan(soft.finalRotation);
+  });
+
+  it('slows down continuously', () => {
+    const spin = planFling(0, 2000);
+    let previousStep = Infinity;
+    for (let t = 0.1; t < spin.duration; t += 0.1) {
+      const step = getRotationAt(spin, t) - getRotationAt(spin, t - 0.1);
+      expect(step).toBeGreaterThan(0);
+      expect(step).toBeLessThan(previousStep);
+      previousStep = step;
+    }
+  });
+
+  it('starts at the release speed', () => {
+    expect(getFlingDistance(1000, 0.001) / 0.001).toBeCloseTo(1000, -1);
+  });
+
+  it('spins backwards when flung backwards', () => {
+    const spin = planFling(100, -1500);
+    expect(spin.finalRotation).toBeCloseTo(100 - (planFling(100, 1500).finalRotation - 100), 9);
+    expect(getRotationAt(spin, 1)).toBeLessThan(100);
+  });
+
+  it('replays to the same stop from the recorded velocity', () => {
+    const spin = planFling(37.5, 2345.6);
+    expect(planFling(spin.startRotation, spin.velocity!)).toEqual(spin);
+  });
+
+  it('caps the release speed', () => {
+    expect(clampFlingVelocity(1e6)).toBe(MAX_FLING_VELOCITY);
+    expect(clampFlingVelocity(-1e6)).toBe(-MAX_FLING_VELOCITY);
+    expect(clampFlingVelocity(300)).toBe(300);
+  });
+});
+
+describe('pegs', () => {
+  const ends = getSegmentEnds(makeEntries(8));
+
+  it('never moves the wheel into another segment', () => {
+    for (const direction of [1, -1]) {
+      for (let rotation = -720; rotation < 720; rotation += 0.37) {
+        const shifted = applyPegHesitation(rotation, ends, 0, direction);
+        expect(getWinnerIndex(shifted, ends)).toBe(getWinnerIndex(rotation, ends));
+      }
+    }
+  });
+
+  it('respects a moved pointer', () => {
+    for (let rotation = 0; rotation < 360; rotation += 0.37) {
+      const shifted = applyPegHesitation(rotation, ends, 0, 1, 270);
+      expect(getWinnerIndex(shifted, ends, 270)).toBe(getWinnerIndex(rotation, ends, 270));
+    }
+    expect(getFlapperPush(-2.5, ends, 1, 5, 0)).toBeCloseTo(0.5);
+  });
+
+  it('only holds back a slow wheel', () => {
+    expect(applyPegHesitation(100, ends, 10000, 1)).toBe(100);
+    expect(applyPegHesitation(100, ends, 0, 1)).not.toBe(100);
+  });
+
+  it('keeps the shifted wheel moving forwards', () => {
+    for (const direction of [1, -1]) {
+      let previous = applyPegHesitation(0, ends, 0, direction);
+      for (let step = 1; step < 2000; step++) {
+        const shifted = applyPegHesitation(direction * step * 0.5, ends, 0, direction);
+        expect(direction * (shifted - previous)).toBeGreaterThanOrEqual(0);
+        previous = shifted;
+      }
+    }
+  });
+
+  it('pushes the flapper harder as the next peg comes up', () => {
+    // Pointer at 90°, pegs every 45°: turning clockwise, the peg at 0° on the wheel reaches it at rotation 90
+    expect(getFlapperPush(80, ends, 1, 5)).toBe(0);
+    expect(getFlapperPush(87.5, ends, 1, 5)).toBeCloseTo(0.5);
+    expect(getFlapperPush(89.9, ends, 1, 5)).toBeGreaterThan(0.9);
+    expect(getFlapperPush(90.1, ends, 1, 5)).toBe(0);
+    // Anticlockwise the same peg approaches from the other side
+    expect(getFlapperPush(92.5, ends, -1, 5)).toBeCloseTo(0.5);
+    expect(getFlapperPush(87.5, ends, -1, 5)).toBe(0);
+  });
+
+  it('measures the speed along a spin', () => {
+    const spin = planFling(0, 1000);
+    expect(getSpeedAt(spin, 0)).toBeGreaterThan(800);
+    expect(getSpeedAt(spin, spin.duration)).toBeLessThan(50);
+  });
+});
+
+describe('createTickTracker', () => {
+  it('reports each segment change once', () => {
+    const tracker = createTickTracker(getSegmentEnds(makeEntries(4)));
+    expect(tracker.update(5)).toBe(true);
+    expect(tracker.update(10)).toBe(false);
+    expect(tracker.update(-10)).toBe(true);
+    expect(tracker.update(-20)).toBe(false);
+    tracker.reset();
+    expect(tracker.update(-20)).toBe(true);
+  });
+
+  it('never ticks on a single entry wheel after the first frame', () => {
+    const tracker = createTickTracker(getSegmentEnds(makeEntries(1)));
+    tracker.update(0);
+    for (let rotation = 1; rotation < 1000; rotation += 7) {
+      expect(tracker.update(rotation)).toBe(false);
+    }
+  });
+});
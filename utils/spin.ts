@@ -0,0 +1,216 @@
+// Headless spin engine: all wheel math, free of React, D3 and the DOM so it runs the same
+// in the browser, in Node scripts and in tests.
+import { WheelEntry } from '../types';
+import { getEntryWeight, getTotalWeight } from './entries';
+import { createRng, RngAlgorithm } from './rng';
+
+// Full turns added to every spin before it settles on the target angle
+export const SPIN_TURNS = 10;
+
+// D3 draws 0 degrees at 12 o'clock, clockwise. The pointer is at 90 degrees (3 o'clock) unless moved.
+export const POINTER_ANGLE = 90;
+
+export type PointerPosition = 'top' | 'right' | 'bottom' | 'left';
+
+export const POINTER_POSITIONS: Record<PointerPosition, number> = { top: 0, right: 90, bottom: 180, left: 270 };
+
+export const MAX_POINTERS = 4;
+
+// Angles of `count` evenly spaced pointers, starting with the one at `position`
+export const getPointerAngles = (position: PointerPosition, count: number) => {
+  return Array.from({ length: count }, (_, i) => normalizeAngle(POINTER_POSITIONS[position] + (i * 360) / count));
+};
+
+export interface Segment {
+  index: number;
+  startAngle: number; // degrees, clockwise from 12 o'clock
+  endAngle: number;
+}
+
+export interface SpinPath {
+  startRotation: number; // degrees
+  finalRotation: number; // degrees
+  duration: number; // in seconds
+  velocity?: number; // deg/s at release for flung spins, which follow the friction model instead of easeSpin
+}
+
+// Flung spins slow down under friction: dω/dt = -(FLING_FRICTION + FLING_DRAG·ω).
+// The constant part acts like a brake, the speed dependent part like bearing and air drag,
+// so fast flicks lose speed quickly and the wheel creeps to a stop at the end.
+export const FLING_FRICTION = 60; // deg/s²
+export const FLING_DRAG = 0.35; // 1/s
+export const MIN_FLING_VELOCITY = 200; // deg/s, slower releases just put the wheel down
+export const MAX_FLING_VELOCITY = 5000; // deg/s
+
+// Wraps any angle into [0, 360)
+export const normalizeAngle = (angle: number) => {
+  const wrapped = angle % 360;
+  const positive = wrapped < 0 ? wrapped + 360 : wrapped;
+  // -1e-15 + 360 rounds to exactly 360, which is the same spot as 0
+  return positive >= 360 ? 0 : positive;
+};
+
+// Cumulative end angle (in degrees) of each segment, proportional to its weight.
+// Mirrors the layout d3.pie produces so hit detection matches what is drawn.
+export const getSegmentEnds = (entries: WheelEntry[]) => {
+  const totalWeight = getTotalWeight(entries);
+  let cumulative = 0;
+  return entries.map(entry => {
+    cumulative += getEntryWeight(entry);
+    return (cumulative / totalWeight) * 360;
+  });
+};
+
+export const getSegments = (entries: WheelEntry[]): Segment[] => {
+  const ends = getSegmentEnds(entries);
+  return ends.map((endAngle, index) => ({ index, startAngle: index === 0 ? 0 : ends[index - 1], endAngle }));
+};
+
+// Index of the segment under the pointer for a given wheel rotation, -1 for an empty wheel.
+// A pointer exactly on a boundary belongs to the segment starting there.
+export const getWinnerIndex = (rotation: number, segmentEnds: number[], pointerAngle = POINTER_ANGLE) => {
+  if (segmentEnds.length === 0) return -1;
+
+  // When the wheel rotates by `rotation` degrees clockwise:
+  // The segment originally at angle A moves to A + rotation.
+  // We want the segment where (A + rotation) covers the pointer.
+  // So A = pointer - rotation.
+  const normalizedAngle = normalizeAngle(pointerAngle - rotation);
+
+  // Binary search for the first segment ending after the pointer angle
+  let low = 0;
+  let high = segmentEnds.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (segmentEnds[mid] > normalizedAngle) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+// Segments under each pointer, in pointer order. Pointers sharing a segment count it once.
+export const getWinnerIndices = (rotation: number, segmentEnds: number[], pointerAngles: number[]) => {
+  const indices = pointerAngles.map(angle => getWinnerIndex(rotation, segmentEnds, angle)).filter(index => index >= 0);
+  return [...new Set(indices)];
+};
+
+// Same as d3.easeCubicInOut, kept here so the engine has no D3 dependency
+export const easeCubicInOut = (t: number) => {
+  return ((t *= 2) <= 1 ? t * t * t : (t -= 2) * t * t + 2) / 2;
+};
+
+// Progress (0-1) of a spin at normalized time t (0-1).
+// We warp time to make the acceleration phase faster and deceleration longer.
+// t^0.5 makes the curve start faster but accelerate smoother than t^0.25
+// It provides a "heavy" but fast flick feeling.
+export const easeSpin = (t: number) => {
+  const clamped = Math.min(1, Math.max(0, t));
+  return easeCubicInOut(Math.pow(clamped, 0.5));
+};
+
+export const clampFlingVelocity = (velocity: number) => {
+  return Math.sign(velocity) * Math.min(Math.abs(velocity), MAX_FLING_VELOCITY);
+};
+
+// Seconds until a wheel released at `velocity` comes to rest
+export const getFlingDuration = (velocity: number) => {
+  return Math.log(1 + (FLING_DRAG * Math.abs(velocity)) / FLING_FRICTION) / FLING_DRAG;
+};
+
+// Degrees travelled `elapsed` seconds after release, signed like the velocity
+export const getFlingDistance = (velocity: number, elapsed: number) => {
+  const t = Math.min(Math.max(0, elapsed), getFlingDuration(velocity));
+  const terminal = FLING_FRICTION / FLING_DRAG;
+  const distance = ((Math.abs(velocity) + terminal) * (1 - Math.exp(-FLING_DRAG * t))) / FLING_DRAG - terminal * t;
+  return Math.sign(velocity) * distance;
+};
+
+// Where a flung wheel stops is decided by the physics alone
+export const planFling = (startRotation: number, velocity: number): SpinPath => {
+  const duration = getFlingDuration(velocity);
+  return { startRotation, finalRotation: startRotation + getFlingDistance(velocity, duration), duration, velocity };
+};
+
+// Wheel rotation `elapsed` seconds into a spin
+export const getRotationAt = (spin: SpinPath, elapsed: number) => {
+  if (spin.duration <= 0 || elapsed >= spin.duration) return spin.finalRotation;
+  if (spin.velocity !== undefined) return spin.startRotation + getFlingDistance(spin.velocity, elapsed);
+  return spin.startRotation + (spin.finalRotation - spin.startRotation) * easeSpin(elapsed / spin.duration);
+};
+
+// Where a spin ends. The resting angle depends only on the seed, the start rotation just
+// decides how far the wheel has to travel to get there, so a seed always picks the same winner.
+export const planFinalRotation = (startRotation: number, seed: string, algorithm?: RngAlgorithm) => {
+  const rng = createRng(seed, algorithm);
+  const targetAngle = rng() * 360;
+  const delta = normalizeAngle(targetAngle - startRotation);
+  return startRotation + SPIN_TURNS * 360 + delta;
+};
+
+// Complete outcome of a seeded spin without animating it
+export const resolveSpin = (entries: WheelEntry[], startRotation: number, seed: string, algorithm?: RngAlgorithm, pointerAngle = POINTER_ANGLE) => {
+  const finalRotation = planFinalRotation(startRotation, seed, algorithm);
+  const winnerIndex = getWinnerIndex(finalRotation, getSegmentEnds(entries), pointerAngle);
+  return { finalRotation, winnerIndex, winner: entries[winnerIndex] ?? null };
+};
+
+// Angular speed (deg/s) `elapsed` seconds into a spin
+export const getSpeedAt = (spin: SpinPath, elapsed: number) => {
+  const step = 1 / 120;
+  const before = Math.max(0, elapsed - step);
+  const after = Math.min(spin.duration, elapsed + step);
+  if (after <= before) return 0;
+  return Math.abs(getRotationAt(spin, after) - getRotationAt(spin, before)) / (after - before);
+};
+
+// --- Pegs ---
+// Pegs sit on the rim at every segment boundary and knock the pointer's flapper aside as they pass.
+
+export const MAX_PEGS = 120; // More would crowd the rim, bigger wheels spin without pegs
+export const PEG_HESITATION = 0.85; // Strongest pull at rest, below 1 so the wheel never moves backwards
+export const PEG_HESITATION_SPEED = 3; // Segments per second below which the pegs start to hold the wheel back
+
+// Slow wheels linger while a peg pushes against the flapper and hurry once it slips over.
+// The shift stays inside the current segment (boundaries map to themselves), so the segment
+// under the pointer, and with it the winner, is exactly the same as without pegs.
+export const applyPegHesitation = (rotation: number, segmentEnds: number[], speed: number, direction: number, pointerAngle = POINTER_ANGLE) => {
+  const index = getWinnerIndex(rotation, segmentEnds, pointerAngle);
+  if (index < 0 || direction === 0) return rotation;
+  const start = index === 0 ? 0 : segmentEnds[index - 1];
+  const width = segmentEnds[index] - start;
+  const strength = PEG_HESITATION * Math.min(1, Math.max(0, 1 - speed / width / PEG_HESITATION_SPEED));
+  if (strength === 0) return rotation;
+
+  // Progress through the segment in the direction of travel, 0 just after a peg, 1 at the next one
+  const angle = normalizeAngle(pointerAngle - rotation);
+  const progress = direction > 0 ? (segmentEnds[index] - angle) / width : (angle - start) / width;
+  const warped = progress + (strength * (1 - Math.cos(2 * Math.PI * progress))) / (2 * Math.PI);
+  return rotation + Math.sign(direction) * (warped - progress) * width;
+};
+
+// How hard the next peg presses on the flapper: 0 when clear, 1 right before it slips past.
+// `contactAngle` is how many degrees before the pointer a peg first touches the flapper.
+export const getFlapperPush = (rotation: number, segmentEnds: number[], direction: number, contactAngle: number, pointerAngle = POINTER_ANGLE) => {
+  const index = getWinnerIndex(rotation, segmentEnds, pointerAngle);
+  if (index < 0 || direction === 0 || contactAngle <= 0) return 0;
+  const angle = normalizeAngle(pointerAngle - rotation);
+  // Turning clockwise the segment's start boundary comes up next, anticlockwise its end
+  const distance = direction > 0 ? angle - (index === 0 ? 0 : segmentEnds[index - 1]) : segmentEnds[index] - angle;
+  return distance < contactAngle ? 1 - distance / contactAngle : 0;
+};
+
+// Reports when the segment under the pointer changes, which is when a tick sound plays
+export const createTickTracker = (segmentEnds: number[], pointerAngle = POINTER_ANGLE) => {
+  let lastIndex = -1;
+  return {
+    update: (rotation: number) => {
+      const index = getWinnerIndex(rotation, segmentEnds, pointerAngle);
+      const changed = index !== lastIndex;
+      lastIndex = index;
+      return changed;
+    },
+    reset: () => {
+      lastIndex = -1;
+    },
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { migrateState, serializeState, toRecordedEntries, toRecordedSettings } from './storage';
+import { createWheel, DEFAULT_SETTINGS } from './defaults';
+import { SavedWheel, WheelEntry, WinnerRecord } from '../types';
+import { buildReceipt, createCommitment } from './fairness';
+import { DEFAULT_RNG } from './rng';
+import { POINTER_ANGLE } from './spin';
+
+const entries: WheelEntry[] = ['Ada', 'Ben', 'Cleo'].map((label, i) => ({ id: `e${i}`, label, image: 'data:image/webp;base64,AAAA' }));
+
+const record = (id: string, list: WheelEntry[]): WinnerRecord => ({
+  id,
+  entry: list[0],
+  timestamp: 1,
+  wheelName: 'Raffle',
+  entries: toRecordedEntries(list),
+  settings: toRecordedSettings(DEFAULT_SETTINGS),
+});
+
+describe('result snapshots', () => {
+  it('leave out pictures, theme and branding', () => {
+    expect(toRecordedEntries(entries).some(e => 'image' in e)).toBe(false);
+    const settings = toRecordedSettings(DEFAULT_SETTINGS);
+    expect('theme' in settings || 'branding' in settings).toBe(false);
+  });
+
+  it('store an unchanged entry list once and restore it for every result', () => {
+    const wheel: SavedWheel = { ...createWheel('Raffle', entries), winners: [record('r3', entries), record('r2', entries), record('r1', entries.slice(1))] };
+    const json = serializeState({ wheels: [wheel], activeWheelId: wheel.id });
+    expect(json.split('"Cleo"').length - 1).toBe(3); // Wheel entries, r3's snapshot and r1's snapshot
+
+    const [restored] = migrateState(JSON.parse(json))!.wheels;
+    expect(restored.winners.map(r => r.entries.map(e => e.label))).toEqual([
+      ['Ada', 'Ben', 'Cleo'],
+      ['Ada', 'Ben', 'Cleo'],
+      ['Ben', 'Cleo'],
+    ]);
+  });
+
+  it('drop pictures from results saved before v4', () => {
+    const wheel = { ...createWheel('Old', entries), winners: [{ ...record('r1', entries), entries }] };
+    const [restored] = migrateState({ version: 3, wheels: [wheel], activeWheelId: wheel.id })!.wheels;
+    expect(restored.winners[0].entries.some(e => e.image)).toBe(false);
+    expect(restored.entries.every(e => e.image)).toBe(true);
+  });
+});
+
+describe('migrateState', () => {
+  it('moves a v1 wheel into the wheel list', () => {
+    const state = migrateState({ version: 1, entries: [{ id: 'e0', label: 'Ada' }], winners: 'broken', settings: null })!;
+    expect(state.wheels).toHaveLength(1);
+    expect(state.activeWheelId).toBe(state.wheels[0].id);
+    expect(state.wheels[0].entries.map(e => e.label)).toEqual(['Ada']);
+    expect(state.wheels[0].winners).toEqual([]);
+  });
+
+  it('keeps valid receipts and drops ones that would not verify', async () => {
+    const commitment = await createCommitment(entries, DEFAULT_RNG, POINTER_ANGLE);
+    const spin = { seed: commitment.seed, rng: commitment.rng, startRotation: 0, finalRotation: 1800, duration: 10 };
+    const receipt = buildReceipt('Raffle', commitment, spin, commitment.committedAt + 1000);
+    const wheel = { ...createWheel('Raffle', entries), winners: [{ ...record('r2', entries), receipt }, { ...record('r1', entries), receipt: { ...receipt, seed: 42 } }] };
+    const [restored] = migrateState({ version: 4, wheels: [wheel], activeWheelId: wheel.id })!.wheels;
+    expect(restored.winners.map(r => r.receipt)).toEqual([receipt, undefined]);
+  });
+});
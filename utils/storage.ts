@@ -0,0 +1,467 @@
+import { AudioPreferences, BatchInfo, Branding, CustomSound, EliminationRound, RecordedSettings, SavedWheel, SpinRecord, WheelEntry, WheelSettings, WinnerRecord } from '../types';
+import { DEFAULT_AUDIO, DEFAULT_BRANDING, DEFAULT_SETTINGS, DEFAULT_WHEEL_NAME } from './defaults';
+import { createId } from './entries';
+import { DEFAULT_RNG, isRngAlgorithm } from './rng';
+import { MAX_POINTERS, POINTER_POSITIONS, PointerPosition } from './spin';
+import { DrawReceipt, FairCommitment, parseReceipt } from './fairness';
+import { DEFAULT_TEAM_CONFIG, TeamBoard, TeamConfig, TeamRule } from './teams';
+import { isHexColor, MAX_PALETTE_COLORS, MIN_PALETTE_COLORS } from './colors';
+import { DEFAULT_THEME, Theme, THEMES } from './themes';
+import { SOUNDTRACKS } from './audio';
+
+// Everything lives in the browser, nothing leaves it: wheels and settings in localStorage,
+// uploaded sounds in IndexedDB, which has room for them without crowding out the wheels
+const STORAGE_KEY = 'lucky-wheel:state';
+const AUDIO_STORAGE_KEY = 'lucky-wheel:audio'; // Volume and mute, shared by all wheels
+const SOUND_DB_NAME = 'lucky-wheel';
+const SOUND_STORE = 'sounds';
+
+// Bump this and add a migration below when saved data has to be rewritten to load correctly:
+// renamed, moved or restructured fields, or data that should be dropped. New fields don't need a
+// bump, the sanitizers below fill in their defaults for data saved before they existed.
+export const STORAGE_VERSION = 4;
+
+export interface PersistedState {
+  version: number;
+  wheels: SavedWheel[];
+  activeWheelId: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWholeNumber = (value: unknown): value is number => Number.isInteger(value);
+
+// The objects in a saved list, anything else would be dropped by the sanitizers anyway
+const objectsIn = (value: unknown) => Array.isArray(value) ? value.filter(isObject) : [];
+
+type SavedData = Record<string, unknown>;
+
+// Each migration upgrades data saved by version `n` to version `n + 1`
+const migrations: Record<number, (data: SavedData) => SavedData> = {
+  // v1 stored a single wheel at the top level
+  1: (data) => {
+    const id = createId();
+    return {
+      version: 2,
+      activeWheelId: id,
+      wheels: [{
+        id,
+        name: DEFAULT_WHEEL_NAME,
+        entries: data.entries,
+        winners: data.winners,
+        settings: data.settings,
+      }],
+    };
+  },
+  // v3 added spin context (time, wheel name, entries, settings) to each result
+  2: (data) => ({
+    ...data,
+    version: 3,
+    wheels: objectsIn(data.wheels).map(wheel => ({
+      ...wheel,
+      winners: objectsIn(wheel.winners).map(record => ({
+        ...record,
+        timestamp: null,
+        wheelName: wheel.name,
+        entries: [],
+        settings: wheel.settings,
+      })),
+    })),
+  }),
+  // v4 keeps results small: no pictures, theme or branding in their snapshots, and results of an
+  // unchanged wheel point at the previous result's entry list instead of repeating it
+  3: (data) => ({
+    ...data,
+    version: 4,
+    wheels: objectsIn(data.wheels).map(wheel => ({
+      ...wheel,
+      winners: objectsIn(wheel.winners).map(record => ({
+        ...record,
+        entries: objectsIn(record.entries).map(({ image, ...entry }) => entry),
+      })),
+    })),
+  }),
+};
+
+// Snapshots are made once per source list, so results of an unchanged wheel share one array
+const recordedEntries = new WeakMap<WheelEntry[], WheelEntry[]>();
+
+// A wheel's entries as results keep them: pictures are left out, they would fill the storage quickly
+export const toRecordedEntries = (entries: WheelEntry[]) => {
+  let snapshot = recordedEntries.get(entries);
+  if (!snapshot) {
+    snapshot = entries.map(({ image, ...entry }) => entry);
+    recordedEntries.set(entries, snapshot);
+  }
+  return snapshot;
+};
+
+export const toRecordedSettings = ({ theme, branding, ...settings }: WheelSettings): RecordedSettings => settings;
+
+const sanitizeEntry = (value: unknown): WheelEntry | null => {
+  if (!isObject(value) || typeof value.label !== 'string') return null;
+  const entry: WheelEntry = {
+    id: typeof value.id === 'string' && value.id ? value.id : createId(),
+    label: value.label,
+  };
+  if (typeof value.weight === 'number' && Number.isFinite(value.weight) && value.weight > 0) entry.weight = value.weight;
+  if (typeof value.color === 'string') entry.color = value.color;
+  if (typeof value.image === 'string') entry.image = value.image;
+  if (typeof value.emoji === 'string') entry.emoji = value.emoji;
+  if (typeof value.notes === 'string') entry.notes = value.notes;
+  return entry;
+};
+
+export const sanitizeEntries = (value: unknown): WheelEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map(sanitizeEntry).filter((entry): entry is WheelEntry => entry !== null);
+};
+
+const sanitizeSpin = (value: unknown): SpinRecord | undefined => {
+  if (!isObject(value) || typeof value.seed !== 'string') return undefined;
+  const { startRotation, finalRotation, duration } = value;
+  if (!isFiniteNumber(startRotation) || !isFiniteNumber(finalRotation) || !isFiniteNumber(duration)) return undefined;
+  const spin: SpinRecord = {
+    seed: value.seed,
+    rng: isRngAlgorithm(value.rng) ? value.rng : DEFAULT_RNG,
+    startRotation,
+    finalRotation,
+    duration,
+  };
+  if (isFiniteNumber(value.velocity)) spin.velocity = value.velocity;
+  return spin;
+};
+
+const sanitizeBatch = (value: unknown): BatchInfo | undefined => {
+  if (!isObject(value) || typeof value.id !== 'string') return undefined;
+  const { draw, size } = value;
+  if (!isWholeNumber(draw) || !isWholeNumber(size) || draw < 1 || draw > size) return undefined;
+  const batch: BatchInfo = { id: value.id, draw, size };
+  if (value.pointers === true) batch.pointers = true;
+  return batch;
+};
+
+const sanitizeElimination = (value: unknown): EliminationRound[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap(round => {
+    if (!isObject(round)) return [];
+    const entry = sanitizeEntry(round.entry);
+    const spin = sanitizeSpin(round.spin);
+    return entry && spin ? [{ entry, spin }] : [];
+  });
+};
+
+// Receipts are checked like a downloaded one would be, they are handed out again as they are
+const sanitizeReceipt = (value: unknown): DrawReceipt | undefined => {
+  if (!isObject(value)) return undefined;
+  try {
+    return parseReceipt(JSON.stringify(value));
+  } catch {
+    return undefined;
+  }
+};
+
+export const sanitizeWinners = (value: unknown): WinnerRecord[] => {
+  if (!Array.isArray(value)) return [];
+  const entryLists = new Map<string, WheelEntry[]>(); // By result id, for results saved as a reference
+  return value.flatMap(record => {
+    if (!isObject(record)) return [];
+    const entry = sanitizeEntry(record.entry);
+    if (!entry) return [];
+    const id = typeof record.id === 'string' ? record.id : createId();
+    const entries = typeof record.entries === 'string' ? entryLists.get(record.entries) ?? [] : sanitizeEntries(record.entries);
+    entryLists.set(id, entries);
+    return [{
+      id,
+      entry,
+      timestamp: typeof record.timestamp === 'number' ? record.timestamp : null,
+      wheelName: typeof record.wheelName === 'string' ? record.wheelName : '',
+      entries,
+      settings: toRecordedSettings(sanitizeSettings(record.settings)),
+      spin: sanitizeSpin(record.spin),
+      receipt: sanitizeReceipt(record.receipt),
+      batch: sanitizeBatch(record.batch),
+      elimination: sanitizeElimination(record.elimination),
+    }];
+  });
+};
+
+const sanitizePalette = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return DEFAULT_SETTINGS.palette;
+  const colors = value.filter((c): c is string => typeof c === 'string' && isHexColor(c)).slice(0, MAX_PALETTE_COLORS);
+  return colors.length >= MIN_PALETTE_COLORS ? colors : DEFAULT_SETTINGS.palette;
+};
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isColorOrNull = (value: unknown): value is string | null => value === null || isColor(value);
+
+// Anything unusable falls back to the built-in theme it started from
+const sanitizeTheme = (value: unknown): Theme => {
+  if (!isObject(value)) return DEFAULT_THEME;
+  const fallback = THEMES.find(t => t.id === value.id) ?? DEFAULT_THEME;
+  const wheel = isObject(value.wheel) ? value.wheel : {};
+  return {
+    id: typeof value.id === 'string' ? value.id : fallback.id,
+    name: typeof value.name === 'string' ? value.name : fallback.name,
+    base: value.base === 'light' || value.base === 'dark' ? value.base : fallback.base,
+    accent: typeof value.accent === 'string' && isHexColor(value.accent) ? value.accent : fallback.accent,
+    wheel: {
+      hub: isColor(wheel.hub) ? wheel.hub : fallback.wheel.hub,
+      hubEdge: isColor(wheel.hubEdge) ? wheel.hubEdge : fallback.wheel.hubEdge,
+      screen: isColor(wheel.screen) ? wheel.screen : fallback.wheel.screen,
+      led: Array.isArray(wheel.led) && wheel.led.length > 0 && wheel.led.every(isColor) ? wheel.led : fallback.wheel.led,
+      ledIdle: isColorOrNull(wheel.ledIdle) ? wheel.ledIdle : fallback.wheel.ledIdle,
+      gloss: typeof wheel.gloss === 'number' && wheel.gloss >= 0 && wheel.gloss <= 1 ? wheel.gloss : fallback.wheel.gloss,
+      pointer: isColorOrNull(wheel.pointer) ? wheel.pointer : fallback.wheel.pointer,
+      pointerOutline: isColor(wheel.pointerOutline) ? wheel.pointerOutline : fallback.wheel.pointerOutline,
+    },
+  };
+};
+
+const sanitizeBranding = (value: unknown): Branding => {
+  if (!isObject(value)) return DEFAULT_BRANDING;
+  const text = (key: keyof Branding) => typeof value[key] === 'string' ? value[key] : DEFAULT_BRANDING[key];
+  return {
+    title: text('title'),
+    hubText: text('hubText'),
+    hubImage: text('hubImage'),
+    winnerHeadline: text('winnerHeadline'),
+    introText: text('introText'),
+    introImage: text('introImage'),
+  };
+};
+
+export const sanitizeSettings = (value: unknown): WheelSettings => {
+  if (!isObject(value)) return { ...DEFAULT_SETTINGS };
+  return {
+    duration: typeof value.duration === 'number' && value.duration > 0 ? value.duration : DEFAULT_SETTINGS.duration,
+    tickSound: typeof value.tickSound === 'string' ? value.tickSound as WheelSettings['tickSound'] : DEFAULT_SETTINGS.tickSound,
+    winSound: typeof value.winSound === 'string' ? value.winSound as WheelSettings['winSound'] : DEFAULT_SETTINGS.winSound,
+    soundtrack: SOUNDTRACKS.find(soundtrack => soundtrack === value.soundtrack) ?? DEFAULT_SETTINGS.soundtrack,
+    seed: typeof value.seed === 'string' ? value.seed : DEFAULT_SETTINGS.seed,
+    winnersPerRun: isWholeNumber(value.winnersPerRun) && value.winnersPerRun >= 1 ? value.winnersPerRun : DEFAULT_SETTINGS.winnersPerRun,
+    removeWinners: typeof value.removeWinners === 'boolean' ? value.removeWinners : DEFAULT_SETTINGS.removeWinners,
+    followUpDuration: typeof value.followUpDuration === 'number' && value.followUpDuration > 0 ? value.followUpDuration : DEFAULT_SETTINGS.followUpDuration,
+    elimination: typeof value.elimination === 'boolean' ? value.elimination : DEFAULT_SETTINGS.elimination,
+    pegs: typeof value.pegs === 'boolean' ? value.pegs : DEFAULT_SETTINGS.pegs,
+    pointerPosition: typeof value.pointerPosition === 'string' && value.pointerPosition in POINTER_POSITIONS ? value.pointerPosition as PointerPosition : DEFAULT_SETTINGS.pointerPosition,
+    pointerCount: isWholeNumber(value.pointerCount) && value.pointerCount >= 1 && value.pointerCount <= MAX_POINTERS ? value.pointerCount : DEFAULT_SETTINGS.pointerCount,
+    curvedLabels: typeof value.curvedLabels === 'boolean' ? value.curvedLabels : DEFAULT_SETTINGS.curvedLabels,
+    palette: sanitizePalette(value.palette),
+    theme: sanitizeTheme(value.theme),
+    branding: sanitizeBranding(value.branding),
+  };
+};
+
+const sanitizeCommitment = (value: unknown): FairCommitment | null => {
+  if (!isObject(value)) return null;
+  const entries = sanitizeEntries(value.entries);
+  const { entriesHash, commitment, seed, rng, pointerAngle } = value;
+  if (entries.length === 0 || typeof entriesHash !== 'string' || typeof commitment !== 'string' || typeof seed !== 'string' || !isRngAlgorithm(rng)) return null;
+  // Commitments published without the pointer angle would give receipts that fail verification
+  if (!isFiniteNumber(pointerAngle)) return null;
+  return {
+    entries,
+    entriesHash,
+    commitment,
+    seed,
+    rng,
+    pointerAngle,
+    committedAt: typeof value.committedAt === 'number' ? value.committedAt : Date.now(),
+  };
+};
+
+const sanitizeTeamConfig = (value: unknown): TeamConfig => {
+  if (!isObject(value)) return { ...DEFAULT_TEAM_CONFIG };
+  const rules: TeamRule[] = Array.isArray(value.rules) ? value.rules.flatMap((rule: unknown) => {
+    if (!isObject(rule) || (rule.type !== 'together' && rule.type !== 'apart') || !Array.isArray(rule.entryIds)) return [];
+    return [{
+      id: typeof rule.id === 'string' ? rule.id : createId(),
+      type: rule.type,
+      entryIds: rule.entryIds.filter((id: unknown): id is string => typeof id === 'string'),
+    }];
+  }) : [];
+  return {
+    sizing: value.sizing === 'size' ? 'size' : 'count',
+    value: isWholeNumber(value.value) && value.value >= 1 ? value.value : DEFAULT_TEAM_CONFIG.value,
+    rules,
+    spinDuration: typeof value.spinDuration === 'number' && value.spinDuration > 0 ? value.spinDuration : DEFAULT_TEAM_CONFIG.spinDuration,
+  };
+};
+
+const sanitizeTeamBoard = (value: unknown): TeamBoard | null => {
+  if (!isObject(value) || typeof value.seed !== 'string' || !Array.isArray(value.teams)) return null;
+  return {
+    seed: value.seed,
+    rng: isRngAlgorithm(value.rng) ? value.rng : DEFAULT_RNG,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+    teams: value.teams.filter(isObject).map((team, i) => ({
+      name: typeof team.name === 'string' ? team.name : `Team ${i + 1}`,
+      members: sanitizeEntries(team.members),
+    })),
+    warnings: Array.isArray(value.warnings) ? value.warnings.filter((w: unknown): w is string => typeof w === 'string') : [],
+  };
+};
+
+const sanitizeWheels = (value: unknown): SavedWheel[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(wheel => {
+    if (!isObject(wheel)) return [];
+    return [{
+      id: typeof wheel.id === 'string' && wheel.id ? wheel.id : createId(),
+      name: typeof wheel.name === 'string' && wheel.name.trim() ? wheel.name : DEFAULT_WHEEL_NAME,
+      entries: sanitizeEntries(wheel.entries),
+      winners: sanitizeWinners(wheel.winners),
+      settings: sanitizeSettings(wheel.settings),
+      fairCommitment: sanitizeCommitment(wheel.fairCommitment),
+      teamConfig: sanitizeTeamConfig(wheel.teamConfig),
+      teamBoard: sanitizeTeamBoard(wheel.teamBoard),
+    }];
+  });
+};
+
+// Runs the saved data through every migration between its version and the current one
+export const migrateState = (raw: unknown): PersistedState | null => {
+  if (!isObject(raw) || typeof raw.version !== 'number') return null;
+  if (raw.version > STORAGE_VERSION) {
+    console.warn(`Saved wheel data is from a newer version (${raw.version}), ignoring it`);
+    return null;
+  }
+
+  let data: SavedData = raw;
+  for (let version = raw.version; version < STORAGE_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    data = migrate(data);
+  }
+
+  const wheels = sanitizeWheels(data.wheels);
+  if (wheels.length === 0) return null;
+  const activeWheelId = wheels.find(w => w.id === data.activeWheelId)?.id ?? wheels[0].id;
+
+  return { version: STORAGE_VERSION, wheels, activeWheelId };
+};
+
+export const loadState = (): PersistedState | null => {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+    return migrateState(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load saved wheel", e);
+    return null;
+  }
+};
+
+const entryListKeys = new WeakMap<WheelEntry[], string>();
+const getEntryListKey = (entries: WheelEntry[]) => {
+  let key = entryListKeys.get(entries);
+  if (key === undefined) {
+    key = JSON.stringify(entries);
+    entryListKeys.set(entries, key);
+  }
+  return key;
+};
+
+// Results with the same entry list store it once, with the newest of them. The older ones refer
+// to that result by its id.
+const packWinners = (winners: WinnerRecord[]) => {
+  const newestWith = new Map<string, string>();
+  return winners.map(record => {
+    if (record.entries.length === 0) return record;
+    const key = getEntryListKey(record.entries);
+    const id = newestWith.get(key);
+    if (id !== undefined) return { ...record, entries: id };
+    newestWith.set(key, record.id);
+    return record;
+  });
+};
+
+export const serializeState = (state: Omit<PersistedState, 'version'>) => {
+  const data = {
+    version: STORAGE_VERSION,
+    ...state,
+    wheels: state.wheels.map(wheel => ({ ...wheel, winners: packWinners(wheel.winners) })),
+  };
+  return JSON.stringify(data);
+};
+
+// Returns false when nothing was saved, so the app can warn that changes will be lost on reload
+export const saveState = (state: Omit<PersistedState, 'version'>) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeState(state));
+    return true;
+  } catch (e) {
+    // Quota exceeded or storage disabled (private mode), the app keeps working in memory
+    console.error("Failed to save wheel", e);
+    return false;
+  }
+};
+
+const sanitizeSound = (value: unknown): CustomSound[] => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.data !== 'string' || !value.data.startsWith('data:')) return [];
+  return [{ id: value.id, name: typeof value.name === 'string' ? value.name : 'Sound', data: value.data }];
+};
+
+// `sounds` is only filled in from localStorage saved by older versions, see loadSounds
+export const sanitizeAudioPreferences = (value: unknown): AudioPreferences => {
+  if (!isObject(value)) return DEFAULT_AUDIO;
+  return {
+    volume: typeof value.volume === 'number' && value.volume >= 0 && value.volume <= 1 ? value.volume : DEFAULT_AUDIO.volume,
+    muted: typeof value.muted === 'boolean' ? value.muted : DEFAULT_AUDIO.muted,
+    sounds: Array.isArray(value.sounds) ? value.sounds.flatMap(sanitizeSound) : DEFAULT_AUDIO.sounds,
+  };
+};
+
+export const loadAudioPreferences = (): AudioPreferences => {
+  try {
+    const saved = window.localStorage.getItem(AUDIO_STORAGE_KEY);
+    return saved ? sanitizeAudioPreferences(JSON.parse(saved)) : DEFAULT_AUDIO;
+  } catch (e) {
+    console.error("Failed to load audio settings", e);
+    return DEFAULT_AUDIO;
+  }
+};
+
+export const saveAudioPreferences = ({ volume, muted }: AudioPreferences) => {
+  try {
+    window.localStorage.setItem(AUDIO_STORAGE_KEY, JSON.stringify({ volume, muted }));
+  } catch (e) {
+    console.error("Failed to save audio settings", e);
+  }
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openSoundDb = () => {
+  const request = window.indexedDB.open(SOUND_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(SOUND_STORE, { keyPath: 'id' });
+  return requestResult(request);
+};
+
+const withSoundStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openSoundDb();
+  try {
+    return await requestResult(run(db.transaction(SOUND_STORE, mode).objectStore(SOUND_STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+// Uploaded sounds, plus `legacy` ones from localStorage saved by older versions, which move over
+export const loadSounds = async (legacy: CustomSound[] = []): Promise<CustomSound[]> => {
+  for (const sound of legacy) await saveSound(sound);
+  const stored = await withSoundStore('readonly', store => store.getAll());
+  return stored.flatMap(sanitizeSound).sort((a, b) => a.name.localeCompare(b.name)); // Keys are random ids, so sort for a stable list
+};
+
+// Rejects when the browser can't store it (private mode, or out of space)
+export const saveSound = (sound: CustomSound) => withSoundStore('readwrite', store => store.put(sound)).then(() => undefined);
+
+export const deleteSound = (id: string) => withSoundStore('readwrite', store => store.delete(id)).then(() => undefined);
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { dealTeams, DEFAULT_TEAM_CONFIG, finishDeal, getPickSeed, getTeamCapacities, getTeamCount, placePick, startDeal, TeamConfig } from './teams';
+import { getSegmentEnds, getWinnerIndex, planFinalRotation, POINTER_POSITIONS, resolveSpin } from './spin';
+import { WheelEntry } from '../types';
+
+const people: WheelEntry[] = Array.from({ length: 10 }, (_, i) => ({ id: `p${i}`, label: `Person ${i}` }));
+
+const config = (overrides: Partial<TeamConfig>): TeamConfig => ({ ...DEFAULT_TEAM_CONFIG, ...overrides });
+
+const teamOf = (teams: { members: WheelEntry[] }[], id: string) => teams.findIndex(t => t.members.some(m => m.id === id));
+
+describe('team sizing', () => {
+  it('counts teams from a number of teams or a team size', () => {
+    expect(getTeamCount(10, 'count', 3)).toBe(3);
+    expect(getTeamCount(10, 'size', 3)).toBe(4);
+    expect(getTeamCount(2, 'count', 5)).toBe(2);
+    expect(getTeamCount(0, 'count', 3)).toBe(0);
+  });
+
+  it('keeps team sizes within one of each other', () => {
+    expect(getTeamCapacities(10, 3)).toEqual([4, 3, 3]);
+    expect(getTeamCapacities(10, 4)).toEqual([3, 3, 2, 2]);
+  });
+});
+
+describe('dealTeams', () => {
+  it('places everyone exactly once in balanced teams', () => {
+    const deal = dealTeams(people, config({ sizing: 'count', value: 3 }), 'seed');
+    expect(deal.remaining).toEqual([]);
+    expect(deal.teams.map(t => t.members.length)).toEqual([4, 3, 3]);
+    const ids = deal.teams.flatMap(t => t.members.map(m => m.id)).sort();
+    expect(ids).toEqual(people.map(p => p.id).sort());
+  });
+
+  it('deals the wheel picks round-robin', () => {
+    let deal = startDeal(people, config({ value: 2 }), 'rr');
+    const picks: string[] = [];
+    while (deal.remaining.length > 0) {
+      const { winner } = resolveSpin(deal.remaining, 0, getPickSeed(deal), deal.rng);
+      picks.push(winner.id);
+      deal = placePick(deal, winner);
+    }
+    expect(deal.teams[0].members.map(m => m.id)).toEqual(picks.filter((_, i) => i % 2 === 0));
+    expect(deal.teams[1].members.map(m => m.id)).toEqual(picks.filter((_, i) => i % 2 === 1));
+    expect(dealTeams(people, config({ value: 2 }), 'rr').teams).toEqual(deal.teams);
+  });
+
+  it('picks with the wheel\'s pointer, also when the animation is skipped halfway', () => {
+    const top = POINTER_POSITIONS.top;
+    let deal = startDeal(people, config({ value: 3 }), 'top', undefined, top);
+    // Land the first picks the way the animated wheel does, from wherever it happens to rest
+    for (let i = 0; i < 4; i++) {
+      const finalRotation = planFinalRotation(37 * i, getPickSeed(deal), deal.rng);
+      deal = placePick(deal, deal.remaining[getWinnerIndex(finalRotation, getSegmentEnds(deal.remaining), top)]);
+    }
+    const skipped = finishDeal(deal);
+    expect(skipped.teams).toEqual(dealTeams(people, config({ value: 3 }), 'top', undefined, top).teams);
+    expect(skipped.teams).not.toEqual(dealTeams(people, config({ value: 3 }), 'top').teams);
+  });
+
+  it('keeps people together', () => {
+    const rules = [{ id: 'r', type: 'together' as const, entryIds: ['p1', 'p2', 'p3'] }];
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const { teams, warnings } = dealTeams(people, config({ value: 3, rules }), seed);
+      expect(teamOf(teams, 'p2')).toBe(teamOf(teams, 'p1'));
+      expect(teamOf(teams, 'p3')).toBe(teamOf(teams, 'p1'));
+      expect(warnings).toEqual([]);
+    }
+  });
+
+  it('keeps people apart', () => {
+    const rules = [{ id: 'r', type: 'apart' as const, entryIds: ['p0', 'p1', 'p2'] }];
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const { teams, warnings } = dealTeams(people, config({ value: 3, rules }), seed);
+      expect(new Set(['p0', 'p1', 'p2'].map(id => teamOf(teams, id))).size).toBe(3);
+      expect(warnings).toEqual([]);
+    }
+  });
+
+  it('warns when people cannot be kept apart', () => {
+    const rules = [{ id: 'r', type: 'apart' as const, entryIds: ['p0', 'p1', 'p2'] }];
+    const { teams, warnings } = dealTeams(people, config({ value: 2, rules }), 'x');
+    expect(teams.flatMap(t => t.members)).toHaveLength(people.length);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('ignores rules about entries that are no longer on the wheel', () => {
+    const rules = [{ id: 'r', type: 'together' as const, entryIds: ['p1', 'gone'] }];
+    expect(startDeal(people, config({ rules }), 's').rules).toEqual([]);
+  });
+
+  it('is reproducible from its seed', () => {
+    const a = dealTeams(people, config({ sizing: 'size', value: 4 }), 'same');
+    const b = dealTeams(people, config({ sizing: 'size', value: 4 }), 'same');
+    expect(a.teams).toEqual(b.teams);
+  });
+});
@@ -0,0 +1,179 @@
+import { WheelEntry } from '../types';
+import { getDrawSeed } from './draw';
+import { POINTER_ANGLE, resolveSpin } from './spin';
+import { DEFAULT_RNG, RngAlgorithm } from './rng';
+
+// Team mode: the wheel picks entries one at a time and deals them round-robin into teams.
+// Dealing is a pure step function so the animated wheel and the headless `dealTeams` agree.
+
+export type TeamSizing = 'count' | 'size'; // Fixed number of teams, or fixed team size
+
+export type TeamRuleType = 'together' | 'apart';
+
+export interface TeamRule {
+  id: string;
+  type: TeamRuleType;
+  entryIds: string[];
+}
+
+export interface TeamConfig {
+  sizing: TeamSizing;
+  value: number; // Number of teams or people per team, depending on `sizing`
+  rules: TeamRule[];
+  spinDuration: number; // in seconds, per pick
+}
+
+export interface Team {
+  name: string;
+  members: WheelEntry[];
+}
+
+// Finished result, kept on the wheel so it can be exported later
+export interface TeamBoard {
+  seed: string;
+  rng: RngAlgorithm;
+  createdAt: number; // ms since epoch
+  teams: Team[];
+  warnings: string[]; // Rules that could not be honoured
+}
+
+// Deal in progress
+export interface TeamDeal {
+  seed: string;
+  rng: RngAlgorithm;
+  pointerAngle: number; // The wheel's first pointer, which makes every pick
+  teams: Team[];
+  capacities: number[]; // Planned size of each team
+  remaining: WheelEntry[]; // Still on the wheel
+  rules: TeamRule[];
+  picks: number; // Spins made so far
+  next: number; // Team the next pick is dealt to
+  warnings: string[];
+}
+
+export const DEFAULT_TEAM_CONFIG: TeamConfig = {
+  sizing: 'count',
+  value: 2,
+  rules: [],
+  spinDuration: 3,
+};
+
+export const getTeamCount = (entryCount: number, sizing: TeamSizing, value: number) => {
+  if (entryCount === 0 || value < 1) return 0;
+  return sizing === 'count' ? Math.min(value, entryCount) : Math.ceil(entryCount / value);
+};
+
+// Sizes as even as possible, the first teams take the remainder
+export const getTeamCapacities = (entryCount: number, teamCount: number) => {
+  return Array.from({ length: teamCount }, (_, i) => Math.floor(entryCount / teamCount) + (i < entryCount % teamCount ? 1 : 0));
+};
+
+// Drops rules that point at removed entries or no longer have two people in them
+const activeRules = (rules: TeamRule[], entries: WheelEntry[]) => {
+  const ids = new Set(entries.map(e => e.id));
+  return rules
+    .map(rule => ({ ...rule, entryIds: rule.entryIds.filter(id => ids.has(id)) }))
+    .filter(rule => rule.entryIds.length > 1);
+};
+
+export const startDeal = (entries: WheelEntry[], config: TeamConfig, seed: string, rng: RngAlgorithm = DEFAULT_RNG, pointerAngle = POINTER_ANGLE): TeamDeal => {
+  const teamCount = getTeamCount(entries.length, config.sizing, config.value);
+  return {
+    seed,
+    rng,
+    pointerAngle,
+    teams: Array.from({ length: teamCount }, (_, i) => ({ name: `Team ${i + 1}`, members: [] })),
+    capacities: getTeamCapacities(entries.length, teamCount),
+    remaining: entries,
+    rules: activeRules(config.rules, entries),
+    picks: 0,
+    next: 0,
+    warnings: [],
+  };
+};
+
+export const getPickSeed = (deal: TeamDeal) => getDrawSeed(deal.seed, deal.picks + 1);
+
+// The picked entry plus everyone still on the wheel who must join the same team
+const getUnit = (entry: WheelEntry, deal: TeamDeal) => {
+  const ids = new Set([entry.id]);
+  // Rules can chain (A+B, B+C), keep expanding until nothing changes
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const rule of deal.rules) {
+      if (rule.type !== 'together' || !rule.entryIds.some(id => ids.has(id))) continue;
+      for (const id of rule.entryIds) {
+        if (!ids.has(id)) {
+          ids.add(id);
+          grew = true;
+        }
+      }
+    }
+  }
+  return deal.remaining.filter(e => ids.has(e.id));
+};
+
+// Labels of team members the unit has to be kept apart from
+const getConflicts = (team: Team, unit: WheelEntry[], rules: TeamRule[]) => {
+  const unitIds = new Set(unit.map(e => e.id));
+  return team.members.filter(member => rules.some(rule =>
+    rule.type === 'apart' && rule.entryIds.includes(member.id) && rule.entryIds.some(id => unitIds.has(id))
+  ));
+};
+
+// Deals the picked entry (and anyone kept together with it) to the next team that has room
+// and no one it must be kept apart from. Rules win over even team sizes when both can't hold.
+export const placePick = (deal: TeamDeal, entry: WheelEntry): TeamDeal => {
+  const unit = getUnit(entry, deal);
+  if (unit.length === 0) return { ...deal, picks: deal.picks + 1 };
+
+  const { teams, capacities } = deal;
+  const order = teams.map((_, i) => (deal.next + i) % teams.length);
+  const hasRoom = (i: number) => teams[i].members.length + unit.length <= capacities[i];
+  const isClear = (i: number) => getConflicts(teams[i], unit, deal.rules).length === 0;
+  const smallest = (candidates: number[]) => candidates.reduce((best, i) => teams[i].members.length < teams[best].members.length ? i : best);
+
+  const warnings = [...deal.warnings];
+  let target = order.find(i => hasRoom(i) && isClear(i));
+  if (target === undefined) {
+    const clear = order.filter(isClear);
+    target = smallest(clear.length > 0 ? clear : order);
+    if (clear.length === 0) {
+      const names = getConflicts(teams[target], unit, deal.rules).map(e => e.label).join(', ');
+      warnings.push(`${unit.map(e => e.label).join(', ')} could not be kept apart from ${names}.`);
+    }
+  }
+
+  const unitIds = new Set(unit.map(e => e.id));
+  return {
+    ...deal,
+    teams: teams.map((team, i) => i === target ? { ...team, members: [...team.members, ...unit] } : team),
+    remaining: deal.remaining.filter(e => !unitIds.has(e.id)),
+    picks: deal.picks + 1,
+    next: (target + 1) % teams.length,
+    warnings,
+  };
+};
+
+// Same picks the wheel would make, without animating them
+export const finishDeal = (deal: TeamDeal): TeamDeal => {
+  let current = deal;
+  while (current.remaining.length > 0) {
+    const { winner } = resolveSpin(current.remaining, 0, getPickSeed(current), current.rng, current.pointerAngle);
+    current = placePick(current, winner);
+  }
+  return current;
+};
+
+export const dealTeams = (entries: WheelEntry[], config: TeamConfig, seed: string, rng: RngAlgorithm = DEFAULT_RNG, pointerAngle = POINTER_ANGLE) => {
+  return finishDeal(startDeal(entries, config, seed, rng, pointerAngle));
+};
+
+export const toTeamBoard = (deal: TeamDeal, createdAt: number): TeamBoard => ({
+  seed: deal.seed,
+  rng: deal.rng,
+  createdAt,
+  teams: deal.teams,
+  warnings: deal.warnings,
+});
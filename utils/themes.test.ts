@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { customizeTheme, DEFAULT_THEME, getThemeVariables, THEMES } from './themes';
+
+const light = THEMES.find(t => t.id === 'light')!;
+
+describe('getThemeVariables', () => {
+  it('keeps the Tailwind colors for the default theme', () => {
+    const variables = getThemeVariables(DEFAULT_THEME);
+    expect(variables['--slate-800']).toBe('30 41 59'); // #1e293b
+    expect(variables['--accent-600']).toBe('37 99 235'); // #2563eb
+    expect(variables['--accent-deep-600']).toBe('79 70 229'); // #4f46e5
+  });
+
+  it('turns surfaces light and text dark for light themes', () => {
+    const variables = getThemeVariables(light);
+    expect(variables['--slate-800']).toBe('255 255 255');
+    expect(variables['--slate-50']).toBe('15 23 42');
+    // Accent text gets darker, buttons keep their color
+    expect(variables['--accent-400']).toBe(getThemeVariables(DEFAULT_THEME)['--accent-600']);
+    expect(variables['--accent-600']).toBe(getThemeVariables(DEFAULT_THEME)['--accent-600']);
+  });
+
+  it('builds a scale around a custom accent', () => {
+    const variables = getThemeVariables(customizeTheme(DEFAULT_THEME, { accent: '#10b981' }));
+    expect(variables['--accent-500']).toBe('16 185 129');
+    expect(variables['--accent-50']).not.toBe(variables['--accent-950']);
+    expect(variables['--accent-deep-600']).toBe(variables['--accent-700']);
+  });
+});
+
+describe('customizeTheme', () => {
+  it('makes a custom copy and leaves the built-in theme alone', () => {
+    const custom = customizeTheme(DEFAULT_THEME, { base: 'light' }, { gloss: 0 });
+    expect(custom).toMatchObject({ id: 'custom', base: 'light', wheel: { gloss: 0, hub: DEFAULT_THEME.wheel.hub } });
+    expect(DEFAULT_THEME.base).toBe('dark');
+    expect(DEFAULT_THEME.wheel.gloss).toBe(0.5);
+  });
+});
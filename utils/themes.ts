@@ -0,0 +1,122 @@
+// Themes for the whole app. The UI is styled with Tailwind's slate (grays), blue (accent) and
+// indigo (deeper accent) classes, which index.html points at the CSS variables set here, so a
+// theme recolors every component without them knowing. The wheel reads its colors directly.
+
+export type ThemeBase = 'dark' | 'light';
+
+export interface WheelTheme {
+  hub: string; // Metal ring around the center
+  hubEdge: string;
+  screen: string; // LED screen behind the glow
+  led: string[]; // Strobe colors while spinning
+  ledIdle: string | null; // Glow at rest, null cycles through the rainbow
+  gloss: number; // 0-1, strength of the highlight across the segments
+  pointer: string | null; // null takes the color of the segment under the pointer
+  pointerOutline: string;
+}
+
+export interface Theme {
+  id: string; // Built-in theme it started from, 'custom' once edited
+  name: string;
+  base: ThemeBase; // Light or dark UI
+  accent: string; // #rrggbb, for buttons, highlights and focus rings
+  wheel: WheelTheme;
+}
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+type Scale = string[]; // One color per shade in SHADES
+
+// Tailwind's own scales, so the default theme looks exactly as the app always did
+const SLATE: Scale = ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'];
+const BLUE: Scale = ['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554'];
+const INDIGO: Scale = ['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b'];
+
+// Light UI: what each slate class stands for. Dark text classes turn dark, surfaces turn white.
+const LIGHT_SLATE: Scale = ['#0f172a', '#1e293b', '#334155', '#475569', '#64748b', '#7c8aa0', '#cbd5e1', '#e2e8f0', '#ffffff', '#f1f5f9', '#e2e8f0'];
+
+const DEFAULT_LED = ['#ff00ff', '#00ffff', '#ffff00', '#ff3300', '#39ff14', '#ffffff']; // Vivid neon
+
+export const THEMES: Theme[] = [
+  {
+    id: 'dark',
+    name: 'Dark',
+    base: 'dark',
+    accent: BLUE[5],
+    wheel: { hub: '#334155', hubEdge: '#1e293b', screen: '#000000', led: DEFAULT_LED, ledIdle: null, gloss: 0.5, pointer: null, pointerOutline: 'rgba(0,0,0,0.5)' },
+  },
+  {
+    id: 'light',
+    name: 'Light',
+    base: 'light',
+    accent: BLUE[5],
+    wheel: { hub: '#e2e8f0', hubEdge: '#94a3b8', screen: '#1e293b', led: DEFAULT_LED, ledIdle: null, gloss: 0.35, pointer: null, pointerOutline: 'rgba(15,23,42,0.6)' },
+  },
+  {
+    id: 'stage',
+    name: 'Stage',
+    base: 'dark',
+    accent: '#f59e0b',
+    wheel: { hub: '#1c1917', hubEdge: '#f59e0b', screen: '#000000', led: ['#f59e0b', '#ffffff', '#ef4444', '#fde68a'], ledIdle: '#f59e0b', gloss: 0.25, pointer: '#fbbf24', pointerOutline: 'rgba(0,0,0,0.7)' },
+  },
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+const toRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const mix = (hex: string, target: string, amount: number) => {
+  const [a, b] = [toRgb(hex), toRgb(target)];
+  return '#' + a.map((c, i) => Math.round(c + (b[i] - c) * amount).toString(16).padStart(2, '0')).join('');
+};
+
+// Scale around `hex` as its 500 shade, tinted towards white and shaded towards black
+const MIX_AMOUNTS = [0.95, 0.9, 0.75, 0.6, 0.3, 0, 0.15, 0.3, 0.45, 0.6, 0.75];
+const generateScale = (hex: string): Scale => {
+  return MIX_AMOUNTS.map((amount, i) => SHADES[i] < 500 ? mix(hex, '#ffffff', amount) : mix(hex, '#000000', amount));
+};
+
+const getAccentScales = (accent: string): [Scale, Scale] => {
+  if (accent.toLowerCase() === BLUE[5]) return [BLUE, INDIGO];
+  const scale = generateScale(accent);
+  // The deeper accent closes gradients, a step darker than the accent itself
+  return [scale, scale.map((_, i) => scale[Math.min(i + 1, scale.length - 1)])];
+};
+
+// On a light UI the pale accent shades are used as text and the dark ones as tints, so swap them:
+// 50 shows as 900, 100 as 800 and so on, 500 to 700 stay for buttons with white text
+const LIGHT_ACCENT_SHADES = [9, 8, 7, 7, 6, 5, 6, 7, 2, 1, 0]; // Positions in SHADES
+const forBase = (scale: Scale, base: ThemeBase) => {
+  return base === 'dark' ? scale : LIGHT_ACCENT_SHADES.map(i => scale[i]);
+};
+
+// CSS variables for `theme`, as space separated RGB so Tailwind can add opacity
+export const getThemeVariables = (theme: Theme): Record<string, string> => {
+  const [accent, deep] = getAccentScales(theme.accent);
+  const scales: Record<string, Scale> = {
+    slate: theme.base === 'light' ? LIGHT_SLATE : SLATE,
+    accent: forBase(accent, theme.base),
+    'accent-deep': forBase(deep, theme.base),
+  };
+  const variables: Record<string, string> = {};
+  Object.entries(scales).forEach(([name, scale]) => {
+    scale.forEach((color, i) => {
+      variables[`--${name}-${SHADES[i]}`] = toRgb(color).join(' ');
+    });
+  });
+  return variables;
+};
+
+export const applyTheme = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  Object.entries(getThemeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.style.colorScheme = theme.base; // Native controls and scrollbars follow along
+  root.classList.toggle('dark', theme.base === 'dark');
+};
+
+// Editing any part of a built-in theme turns it into the wheel's own custom theme
+export const customizeTheme = (theme: Theme, changes: Partial<Omit<Theme, 'id' | 'name' | 'wheel'>>, wheel: Partial<WheelTheme> = {}): Theme => ({
+  ...theme,
+  ...changes,
+  id: 'custom',
+  name: 'Custom',
+  wheel: { ...theme.wheel, ...wheel },
+});
@@ -0,0 +1,97 @@
+// Canvas renderer for big wheels. The SVG wheel needs several DOM nodes per segment, which
+// gets slow with thousands of entries. Here the segments are painted once into a canvas, and
+// while the wheel turns only the canvas is rotated, which the browser does on the GPU.
+import { WheelEntry } from '../types';
+import { getTextColor, LIGHT_TEXT } from './colors';
+import { getSegments } from './spin';
+
+export const CANVAS_MIN_ENTRIES = 200; // Smaller wheels keep the SVG renderer
+
+const LABEL_INSET = 20; // Gap between the end of a label and the rim, as on the SVG wheel
+const LABEL_FILL = 0.8; // Share of the segment's width a label may take up
+const MAX_LABEL_PX = 14;
+const MIN_LABEL_PX = 7; // Labels that would be smaller than this are left out
+
+// Font size for a label in a segment `angle` radians wide, ending `radius` px from the center.
+// 0 when even the smallest readable size doesn't fit.
+export const getLabelFontSize = (angle: number, radius: number) => {
+  const size = Math.min(MAX_LABEL_PX, angle * radius * LABEL_FILL);
+  return size >= MIN_LABEL_PX ? size : 0;
+};
+
+// Shortens a label to `maxWidth` px in the current font, the way the SVG wheel truncates
+const fitLabel = (ctx: CanvasRenderingContext2D, label: string, maxWidth: number) => {
+  if (ctx.measureText(label).width <= maxWidth) return label;
+  for (let length = label.length - 1; length > 0; length--) {
+    const shortened = label.substring(0, length) + '..';
+    if (ctx.measureText(shortened).width <= maxWidth) return shortened;
+  }
+  return '';
+};
+
+// Paints segments and labels around the canvas center, at 12 o'clock when not rotated.
+// `colors` holds each entry's segment color, see getSegmentColors.
+export const drawWheelCanvas = (canvas: HTMLCanvasElement, entries: WheelEntry[], colors: string[], outerRadius: number, innerRadius: number, gloss = 0.5) => {
+  const ratio = window.devicePixelRatio || 1;
+  const size = outerRadius * 2;
+  canvas.width = Math.round(size * ratio);
+  canvas.height = Math.round(size * ratio);
+  canvas.style.width = `${size}px`;
+  canvas.style.height = `${size}px`;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(ratio, 0, 0, ratio, outerRadius * ratio, outerRadius * ratio);
+
+  const segments = getSegments(entries);
+  // Canvas angles start at 3 o'clock, the wheel's at 12 o'clock
+  const toRadians = (angle: number) => (angle - 90) * (Math.PI / 180);
+
+  // Segments, outlined only where the outline wouldn't swallow the color
+  ctx.strokeStyle = 'rgba(0,0,0,0.1)';
+  ctx.lineWidth = 1;
+  segments.forEach(({ index, startAngle, endAngle }) => {
+    ctx.beginPath();
+    ctx.arc(0, 0, outerRadius, toRadians(startAngle), toRadians(endAngle));
+    ctx.arc(0, 0, innerRadius, toRadians(endAngle), toRadians(startAngle), true);
+    ctx.closePath();
+    ctx.fillStyle = colors[index];
+    ctx.fill();
+    if ((endAngle - startAngle) * (Math.PI / 180) * outerRadius >= 4) ctx.stroke();
+  });
+
+  // Gloss
+  const glossGradient = ctx.createRadialGradient(-outerRadius * 0.4, -outerRadius * 0.4, 0, 0, 0, outerRadius);
+  glossGradient.addColorStop(0, `rgba(255,255,255,${gloss})`);
+  glossGradient.addColorStop(1, 'rgba(255,255,255,0)');
+  ctx.beginPath();
+  ctx.arc(0, 0, outerRadius, 0, Math.PI * 2);
+  ctx.arc(0, 0, innerRadius, 0, Math.PI * 2, true);
+  ctx.fillStyle = glossGradient;
+  ctx.fill();
+
+  // Labels, reading inwards from the rim
+  const labelEnd = outerRadius - LABEL_INSET;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  ctx.shadowBlur = 3;
+  ctx.shadowOffsetX = 1;
+  ctx.shadowOffsetY = 1;
+  segments.forEach(({ index, startAngle, endAngle }) => {
+    const angle = (endAngle - startAngle) * (Math.PI / 180);
+    const fontSize = getLabelFontSize(angle, labelEnd);
+    if (fontSize === 0) return;
+    // Closer to the center the segment narrows, the label has to end before it gets too thin
+    const minRadius = Math.max(innerRadius + 10, fontSize / (angle * LABEL_FILL));
+    ctx.font = `800 ${fontSize}px Inter, sans-serif`;
+    const label = fitLabel(ctx, entries[index].label, labelEnd - minRadius);
+    if (!label) return;
+    ctx.save();
+    const textColor = getTextColor(colors[index]);
+    ctx.fillStyle = textColor;
+    ctx.shadowColor = textColor === LIGHT_TEXT ? 'rgba(0,0,0,0.8)' : 'transparent';
+    ctx.rotate(toRadians((startAngle + endAngle) / 2));
+    ctx.fillText(label, labelEnd, 0);
+    ctx.restore();
+  });
+};